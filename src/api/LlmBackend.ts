@@ -0,0 +1,106 @@
+/**
+ * Backend-neutral types shared by every LLM server Duvut can talk to. Message
+ * and tool shapes follow Ollama's `/api/chat` format; other backends convert
+ * to and from it.
+ */
+
+export type BackendKind = 'ollama' | 'openai';
+
+/** What `chat` and `generateCompletion` return when the model's reply is empty */
+export const NO_RESPONSE = 'No response received';
+
+export interface BackendModel {
+    name: string;
+    size?: number;
+    modified_at?: string;
+    details?: {
+        format?: string;
+        family?: string;
+        parameter_size?: string;
+        quantization_level?: string;
+    };
+}
+
+export interface ToolCall {
+    function: {
+        name: string;
+        arguments: Record<string, any>;
+    };
+}
+
+export interface ToolDefinition {
+    type: 'function';
+    function: {
+        name: string;
+        description: string;
+        parameters: {
+            type: 'object';
+            properties: Record<string, { type: string; description: string }>;
+            required?: string[];
+        };
+    };
+}
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    /** Native tool calls requested by the model (assistant messages only) */
+    tool_calls?: ToolCall[];
+    /** Name of the tool that produced this result (tool messages only) */
+    tool_name?: string;
+    /** Set on assistant messages whose generation was stopped before the model finished */
+    truncated?: boolean;
+}
+
+export interface RequestOptions {
+    /** Overrides the default client timeout for this request */
+    timeoutMs?: number;
+    /** Aborts the in-flight HTTP request when signalled */
+    signal?: AbortSignal;
+    /** Tools the model may call natively (models without tool support reject these) */
+    tools?: ToolDefinition[];
+    /** Context window to allocate for this request (Ollama `num_ctx`) */
+    contextLength?: number;
+    /** Overrides the `duvut-assistant.temperature` setting for this request */
+    temperature?: number;
+    topP?: number;
+    /** Sequences that end the generation */
+    stop?: string[];
+    /** Send a completion prompt as-is, without the model's prompt template (Ollama `raw`) */
+    raw?: boolean;
+}
+
+/**
+ * Token counts and timings for one generation. Durations are in milliseconds;
+ * fields a backend does not report are left undefined.
+ */
+export interface ResponseStats {
+    model: string;
+    promptTokens?: number;
+    completionTokens?: number;
+    tokensPerSecond?: number;
+    /** Measured by the client from sending the request to the first streamed token */
+    timeToFirstTokenMs?: number;
+    /** Time spent loading the model into memory before generating */
+    loadDurationMs?: number;
+    totalDurationMs?: number;
+}
+
+export interface ChatStreamChunk {
+    content?: string;
+    toolCalls?: ToolCall[];
+    /** Sent once, after the last content chunk of a completed stream */
+    stats?: ResponseStats;
+}
+
+export interface LlmBackend {
+    readonly kind: BackendKind;
+    getEndpointUrl(): string;
+    listModels(): Promise<BackendModel[]>;
+    checkConnection(): Promise<boolean>;
+    chat(messages: ChatMessage[], model: string, options?: RequestOptions): Promise<string>;
+    chatStream(messages: ChatMessage[], model?: string, options?: RequestOptions): AsyncGenerator<ChatStreamChunk, void, unknown>;
+    /** Plain (non-chat) completion of a raw prompt */
+    generateCompletion(prompt: string, model?: string, options?: RequestOptions): Promise<string>;
+    embed(input: string | string[], model: string, options?: RequestOptions): Promise<number[][]>;
+}
@@ -1,6 +1,8 @@
 import axios, { AxiosInstance } from 'axios';
 import * as vscode from 'vscode';
 import { DebugService } from '../services/DebugService';
+import { BackendKind, ChatMessage, ChatStreamChunk, LlmBackend, NO_RESPONSE, RequestOptions, ResponseStats, ToolDefinition } from './LlmBackend';
+import { categorizeError, OllamaError, RequestPolicy } from './RequestPolicy';
 
 export interface OllamaModel {
     name: string;
@@ -18,6 +20,32 @@ export interface OllamaModel {
     };
 }
 
+export interface OllamaRunningModel {
+    name: string;
+    model: string;
+    size: number;
+    digest: string;
+    details: OllamaModel['details'];
+    expires_at: string;
+    size_vram: number;
+}
+
+export interface OllamaModelInfo {
+    modelfile?: string;
+    parameters?: string;
+    template?: string;
+    details: OllamaModel['details'];
+    model_info?: Record<string, any>;
+    capabilities?: string[];
+}
+
+export interface PullProgress {
+    status: string;
+    digest?: string;
+    total?: number;
+    completed?: number;
+}
+
 export interface OllamaResponse {
     model: string;
     created_at: string;
@@ -32,30 +60,31 @@ export interface OllamaResponse {
     eval_duration?: number;
 }
 
-export interface ChatMessage {
-    role: 'system' | 'user' | 'assistant';
-    content: string;
-}
-
 export interface ChatRequest {
     model: string;
     messages: ChatMessage[];
     stream?: boolean;
+    tools?: ToolDefinition[];
     options?: {
         temperature?: number;
         num_predict?: number;
+        num_ctx?: number;
         top_p?: number;
         top_k?: number;
+        stop?: string[];
     };
 }
 
-export class OllamaClient {
+export class OllamaClient implements LlmBackend {
+    readonly kind: BackendKind = 'ollama';
+
     private client: AxiosInstance;
     private baseUrl: string;
     private debugService?: DebugService;
+    private policy: RequestPolicy;
 
-    constructor(outputChannel?: vscode.OutputChannel) {
-        this.baseUrl = this.getBaseUrl();
+    constructor(outputChannel?: vscode.OutputChannel, baseUrl?: string) {
+        this.baseUrl = baseUrl || this.getBaseUrl();
         this.client = axios.create({
             baseURL: this.baseUrl,
             timeout: 30000,
@@ -68,6 +97,11 @@ export class OllamaClient {
         if (outputChannel) {
             this.debugService = DebugService.getInstance(outputChannel);
         }
+        this.policy = new RequestPolicy(this.baseUrl, this.debugService);
+    }
+
+    getEndpointUrl(): string {
+        return this.baseUrl;
     }
 
     private getBaseUrl(): string {
@@ -93,13 +127,113 @@ export class OllamaClient {
     async listModels(): Promise<OllamaModel[]> {
         try {
             this.debugService?.logOllamaRequest('listModels', {}, '/api/tags');
-            const response = await this.client.get('/api/tags');
+            const response = await this.policy.execute('listModels', () => this.client.get('/api/tags'), { idempotent: true });
             this.debugService?.logOllamaResponse('listModels', response.data, '/api/tags');
             return response.data.models || [];
         } catch (error) {
             this.debugService?.logOllamaError('listModels', error, '/api/tags');
             console.error('Error listing models:', error);
-            throw new Error('Failed to connect to Ollama. Make sure Ollama is running.');
+            throw this.toApiError(error);
+        }
+    }
+
+    /**
+     * Pull a model from the Ollama library, yielding progress records as they stream in
+     */
+    async *pullModel(name: string, options: RequestOptions = {}): AsyncGenerator<PullProgress, void, unknown> {
+        const { signal } = options;
+        const request = { model: name, stream: true };
+        this.debugService?.logOllamaRequest('pullModel', request, '/api/pull');
+
+        try {
+            // Downloads can take far longer than the default timeout
+            const response = await this.client.post('/api/pull', request, {
+                responseType: 'stream',
+                timeout: 0,
+                signal,
+            });
+
+            let buffer = '';
+            for await (const chunk of response.data) {
+                buffer += chunk.toString();
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+
+                for (const line of lines) {
+                    if (!line.trim()) continue;
+                    let data: any;
+                    try {
+                        data = JSON.parse(line);
+                    } catch (parseError) {
+                        continue; // Skip invalid JSON lines
+                    }
+                    if (data.error) {
+                        throw new Error(`Ollama API error: ${data.error}`);
+                    }
+                    yield data as PullProgress;
+                }
+            }
+            this.debugService?.log('pullModel', `Pull completed for ${name}`);
+        } catch (error) {
+            if (axios.isCancel(error) || signal?.aborted) {
+                this.debugService?.log('pullModel', `Pull cancelled for ${name}`);
+                throw new Error('Request cancelled');
+            }
+            this.debugService?.logOllamaError('pullModel', error, '/api/pull');
+            if (axios.isAxiosError(error) && error.response) {
+                const detail = await this.readErrorBody(error.response.data);
+                throw new Error(`Ollama API error: ${detail || error.message}`);
+            }
+            throw error;
+        }
+    }
+
+    async deleteModel(name: string): Promise<void> {
+        this.debugService?.logOllamaRequest('deleteModel', { model: name }, '/api/delete');
+        try {
+            await this.policy.execute('deleteModel', () => this.client.delete('/api/delete', { data: { model: name } }), { idempotent: false, model: name });
+            this.debugService?.log('deleteModel', `Deleted model ${name}`);
+        } catch (error) {
+            this.debugService?.logOllamaError('deleteModel', error, '/api/delete');
+            throw this.toApiError(error, name);
+        }
+    }
+
+    async showModel(name: string): Promise<OllamaModelInfo> {
+        this.debugService?.logOllamaRequest('showModel', { model: name }, '/api/show');
+        try {
+            const response = await this.policy.execute('showModel', () => this.client.post('/api/show', { model: name }), { idempotent: true, model: name });
+            this.debugService?.logOllamaResponse('showModel', { details: response.data.details, capabilities: response.data.capabilities }, '/api/show');
+            return response.data;
+        } catch (error) {
+            this.debugService?.logOllamaError('showModel', error, '/api/show');
+            throw this.toApiError(error, name);
+        }
+    }
+
+    async copyModel(source: string, destination: string): Promise<void> {
+        this.debugService?.logOllamaRequest('copyModel', { source, destination }, '/api/copy');
+        try {
+            await this.policy.execute('copyModel', () => this.client.post('/api/copy', { source, destination }), { idempotent: false, model: source });
+            this.debugService?.log('copyModel', `Copied model ${source} to ${destination}`);
+        } catch (error) {
+            this.debugService?.logOllamaError('copyModel', error, '/api/copy');
+            throw this.toApiError(error, source);
+        }
+    }
+
+    /**
+     * List the models currently loaded into memory
+     */
+    async listRunningModels(): Promise<OllamaRunningModel[]> {
+        try {
+            this.debugService?.logOllamaRequest('listRunningModels', {}, '/api/ps');
+            const response = await this.policy.execute('listRunningModels', () => this.client.get('/api/ps'), { idempotent: true });
+            this.debugService?.logOllamaResponse('listRunningModels', response.data, '/api/ps');
+            return response.data.models || [];
+        } catch (error) {
+            this.debugService?.logOllamaError('listRunningModels', error, '/api/ps');
+            throw this.toApiError(error);
         }
     }
 
@@ -117,14 +251,18 @@ export class OllamaClient {
         }
     }
 
-    async chat(messages: ChatMessage[], model: string, timeoutMs?: number): Promise<string> {
+    async chat(messages: ChatMessage[], model: string, options: RequestOptions = {}): Promise<string> {
+        const { timeoutMs, signal, contextLength } = options;
         const request: ChatRequest = {
             model: model,
-            messages,
+            messages: this.toRequestMessages(messages),
             stream: false,
             options: {
-                temperature: this.getTemperature(),
+                temperature: options.temperature ?? this.getTemperature(),
                 num_predict: this.getMaxTokens(),
+                num_ctx: contextLength,
+                top_p: options.topP,
+                stop: options.stop,
             },
         };
 
@@ -140,37 +278,42 @@ export class OllamaClient {
         this.debugService?.logOllamaRequest('chat', request, '/api/chat');
 
         try {
-            const config = timeoutMs ? { timeout: timeoutMs } : {};
-            const response = await this.client.post('/api/chat', request, config);
+            const config = timeoutMs ? { timeout: timeoutMs, signal } : { signal };
+            const response = await this.policy.execute('chat', () => this.client.post('/api/chat', request, config), { idempotent: false, model, timeoutMs, signal });
             
             this.debugService?.logOllamaResponse('chat', response.data, '/api/chat');
             this.debugService?.logChatMessage('chat', response.data.message, 'received');
             
-            return response.data.message?.content || 'No response received';
+            return response.data.message?.content || NO_RESPONSE;
         } catch (error) {
+            const apiError = categorizeError(error, { baseUrl: this.baseUrl, model, timeoutMs, signal });
+            if (apiError.category === 'cancelled') {
+                this.debugService?.log('chat', 'Chat request cancelled');
+                throw apiError;
+            }
             this.debugService?.logOllamaError('chat', error, '/api/chat');
             console.error('Error in chat request:', error);
-            if (axios.isAxiosError(error)) {
-                if (error.code === 'ECONNREFUSED') {
-                    throw new Error('Cannot connect to Ollama. Make sure Ollama is running on ' + this.baseUrl);
-                }
-                if (error.code === 'ECONNABORTED' && timeoutMs) {
-                    throw new Error(`Request timeout after ${timeoutMs}ms - try using a faster model for code completion`);
-                }
-                throw new Error(`Ollama API error: ${error.response?.data?.error || error.message}`);
-            }
-            throw error;
+            throw apiError;
         }
     }
 
-    async *chatStream(messages: ChatMessage[], model?: string): AsyncGenerator<string, void, unknown> {
+    /**
+     * Stream a chat completion. When the signal is aborted the generator simply
+     * ends, so callers can keep whatever content was yielded so far.
+     */
+    async *chatStream(messages: ChatMessage[], model?: string, options: RequestOptions = {}): AsyncGenerator<ChatStreamChunk, void, unknown> {
+        const { signal, tools, contextLength } = options;
         const request: ChatRequest = {
             model: model || this.getModelId(),
-            messages,
+            messages: this.toRequestMessages(messages),
             stream: true,
+            tools: tools && tools.length > 0 ? tools : undefined,
             options: {
-                temperature: this.getTemperature(),
+                temperature: options.temperature ?? this.getTemperature(),
                 num_predict: this.getMaxTokens(),
+                num_ctx: contextLength,
+                top_p: options.topP,
+                stop: options.stop,
             },
         };
 
@@ -184,10 +327,15 @@ export class OllamaClient {
         });
 
         this.debugService?.logOllamaRequest('chatStream', request, '/api/chat');
+        const context = { baseUrl: this.baseUrl, model: request.model, signal };
+        const startedAt = Date.now();
+        let firstTokenAt: number | undefined;
 
         try {
-            const response = await this.client.post('/api/chat', request, {
-                responseType: 'stream',
+            const response = await this.policy.execute('chatStream', () => this.postStream('/api/chat', request, signal), {
+                idempotent: false,
+                model: request.model,
+                signal,
             });
 
             let buffer = '';
@@ -199,41 +347,62 @@ export class OllamaClient {
                 buffer = lines.pop() || '';
 
                 for (const line of lines) {
-                    if (line.trim()) {
-                        try {
-                            const data = JSON.parse(line);
-                            if (data.message?.content) {
-                                streamedContent += data.message.content;
-                                yield data.message.content;
-                            }
-                            if (data.done) {
-                                this.debugService?.log('chatStream', 'Stream completed', {
-                                    totalContent: streamedContent,
-                                    finalResponse: data
-                                });
-                                return;
-                            }
-                        } catch (parseError) {
-                            // Skip invalid JSON lines
-                        }
+                    if (!line.trim()) continue;
+                    let data: any;
+                    try {
+                        data = JSON.parse(line);
+                    } catch (parseError) {
+                        continue; // Skip invalid JSON lines
+                    }
+                    // Failures after the response started (e.g. running out of memory while loading) arrive in-band
+                    if (data.error) {
+                        throw new Error(data.error);
+                    }
+                    if ((data.message?.content || data.message?.tool_calls?.length) && firstTokenAt === undefined) {
+                        firstTokenAt = Date.now();
+                    }
+                    if (data.message?.content) {
+                        streamedContent += data.message.content;
+                        yield { content: data.message.content };
+                    }
+                    if (data.message?.tool_calls?.length) {
+                        this.debugService?.log('chatStream', 'Received tool calls', data.message.tool_calls);
+                        yield { toolCalls: data.message.tool_calls };
+                    }
+                    if (data.done) {
+                        this.debugService?.log('chatStream', 'Stream completed', {
+                            totalContent: streamedContent,
+                            finalResponse: data
+                        });
+                        yield { stats: this.toResponseStats(data, request.model, firstTokenAt ? firstTokenAt - startedAt : undefined) };
+                        return;
                     }
                 }
             }
         } catch (error) {
+            const apiError = categorizeError(error, context);
+            if (apiError.category === 'cancelled') {
+                this.debugService?.log('chatStream', 'Stream cancelled by caller');
+                return;
+            }
             this.debugService?.logOllamaError('chatStream', error, '/api/chat');
             console.error('Error in chat stream request:', error);
-            throw error;
+            throw apiError;
         }
     }
 
-    async generateCompletion(prompt: string): Promise<string> {
+    async generateCompletion(prompt: string, model?: string, options: RequestOptions = {}): Promise<string> {
+        const { timeoutMs, signal } = options;
         const request = {
-            model: this.getModelId(),
+            model: model || this.getModelId(),
             prompt,
             stream: false,
+            raw: options.raw,
             options: {
-                temperature: this.getTemperature(),
+                temperature: options.temperature ?? this.getTemperature(),
                 num_predict: this.getMaxTokens(),
+                top_p: options.topP,
+                stop: options.stop,
             },
         };
 
@@ -241,18 +410,117 @@ export class OllamaClient {
         this.debugService?.logOllamaRequest('generateCompletion', request, '/api/generate');
 
         try {
-            const response = await this.client.post('/api/generate', request);
+            const config = timeoutMs ? { timeout: timeoutMs, signal } : { signal };
+            const response = await this.policy.execute('generateCompletion', () => this.client.post('/api/generate', request, config), {
+                idempotent: false,
+                model: request.model,
+                timeoutMs,
+                signal,
+            });
             
             this.debugService?.logOllamaResponse('generateCompletion', response.data, '/api/generate');
             this.debugService?.log('generateCompletion', 'Generated completion', { 
                 response: response.data.response 
             });
             
-            return response.data.response || 'No response received';
+            return response.data.response || NO_RESPONSE;
         } catch (error) {
+            const apiError = categorizeError(error, { baseUrl: this.baseUrl, model: request.model, timeoutMs, signal });
+            if (apiError.category === 'cancelled') {
+                this.debugService?.log('generateCompletion', 'Generate request cancelled');
+                throw apiError;
+            }
             this.debugService?.logOllamaError('generateCompletion', error, '/api/generate');
             console.error('Error in generate request:', error);
+            throw apiError;
+        }
+    }
+
+    async embed(input: string | string[], model: string, options: RequestOptions = {}): Promise<number[][]> {
+        const { timeoutMs, signal } = options;
+        const request = { model, input };
+        this.debugService?.logOllamaRequest('embed', { model, inputs: Array.isArray(input) ? input.length : 1 }, '/api/embed');
+
+        try {
+            const config = timeoutMs ? { timeout: timeoutMs, signal } : { signal };
+            const response = await this.policy.execute('embed', () => this.client.post('/api/embed', request, config), {
+                idempotent: true,
+                model,
+                timeoutMs,
+                signal,
+            });
+            return response.data.embeddings || [];
+        } catch (error) {
+            const apiError = categorizeError(error, { baseUrl: this.baseUrl, model, timeoutMs, signal });
+            if (apiError.category !== 'cancelled') {
+                this.debugService?.logOllamaError('embed', error, '/api/embed');
+            }
+            throw apiError;
+        }
+    }
+
+    /**
+     * Convert the counters of a final `done` record (durations in nanoseconds)
+     */
+    private toResponseStats(data: Partial<OllamaResponse>, model: string, timeToFirstTokenMs?: number): ResponseStats {
+        const toMs = (ns?: number) => ns !== undefined ? ns / 1e6 : undefined;
+        return {
+            model,
+            promptTokens: data.prompt_eval_count,
+            completionTokens: data.eval_count,
+            tokensPerSecond: data.eval_count && data.eval_duration ? data.eval_count / (data.eval_duration / 1e9) : undefined,
+            timeToFirstTokenMs,
+            loadDurationMs: toMs(data.load_duration),
+            totalDurationMs: toMs(data.total_duration),
+        };
+    }
+
+    /**
+     * Strip client-side bookkeeping fields before sending messages to Ollama
+     */
+    private toRequestMessages(messages: ChatMessage[]): ChatMessage[] {
+        return messages.map(({ role, content, tool_calls, tool_name }) => ({ role, content, tool_calls, tool_name }));
+    }
+
+    private toApiError(error: unknown, model?: string): OllamaError {
+        return categorizeError(error, { baseUrl: this.baseUrl, model });
+    }
+
+    /**
+     * POST expecting a streamed response. Error bodies of streamed responses are
+     * unread streams, so they are read into `{ error }` for categorizeError.
+     */
+    private async postStream(url: string, body: any, signal?: AbortSignal) {
+        try {
+            return await this.client.post(url, body, { responseType: 'stream', signal });
+        } catch (error) {
+            if (axios.isAxiosError(error) && error.response) {
+                error.response.data = { error: await this.readErrorBody(error.response.data) || error.message };
+            }
             throw error;
         }
     }
+
+    private async readErrorBody(data: any): Promise<string> {
+        if (!data) return '';
+        if (typeof data === 'object' && typeof data[Symbol.asyncIterator] === 'function') {
+            let body = '';
+            try {
+                for await (const chunk of data) {
+                    body += chunk.toString();
+                }
+            } catch {
+                // Fall through with whatever was read
+            }
+            data = body;
+        }
+        if (typeof data === 'string') {
+            try {
+                return JSON.parse(data).error || data;
+            } catch {
+                return data;
+            }
+        }
+        return data.error || '';
+    }
 }
@@ -0,0 +1,403 @@
+import axios, { AxiosInstance } from 'axios';
+import * as vscode from 'vscode';
+import { DebugService } from '../services/DebugService';
+import { BackendKind, BackendModel, ChatMessage, ChatStreamChunk, LlmBackend, NO_RESPONSE, RequestOptions, ResponseStats, ToolCall } from './LlmBackend';
+
+/** `GET /v1/models` */
+interface ModelList {
+    data?: Array<{ id: string; created?: number; owned_by?: string }>;
+}
+
+interface Usage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+}
+
+/** Non-streamed `POST /v1/chat/completions` */
+interface ChatCompletion {
+    choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+/** One `data:` line of a streamed chat completion */
+interface ChatCompletionChunk {
+    choices?: Array<{
+        delta?: {
+            content?: string | null;
+            /** Fragments of the tool calls, merged by index */
+            tool_calls?: Array<{ index?: number; function?: { name?: string; arguments?: string } }>;
+        };
+        finish_reason?: string | null;
+    }>;
+    /** Only in the last chunk, when `stream_options.include_usage` is set */
+    usage?: Usage | null;
+}
+
+/** `POST /v1/completions` */
+interface Completion {
+    choices?: Array<{ text?: string }>;
+}
+
+/** `POST /v1/embeddings` */
+interface EmbeddingList {
+    data?: Array<{ embedding: number[] }>;
+}
+
+/** Some servers send the error as a plain string rather than an object */
+interface ErrorBody {
+    error?: string | { message?: string };
+}
+
+interface RequestToolCall {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+}
+
+type RequestMessage =
+    | { role: 'system' | 'user' | 'assistant'; content: string }
+    | { role: 'assistant'; content: string | null; tool_calls: RequestToolCall[] }
+    | { role: 'tool'; content: string; tool_call_id: string };
+
+function errorDetail(body: ErrorBody): string {
+    return typeof body.error === 'object' ? body.error.message || '' : body.error || '';
+}
+
+/**
+ * Client for servers exposing the OpenAI `/v1` API, such as llama.cpp server,
+ * LM Studio or vLLM.
+ */
+export class OpenAICompatibleClient implements LlmBackend {
+    readonly kind: BackendKind = 'openai';
+    private client: AxiosInstance;
+    private baseUrl: string;
+    private debugService?: DebugService;
+
+    constructor(baseUrl: string, apiKey?: string, outputChannel?: vscode.OutputChannel) {
+        // Accept both "http://host:port" and "http://host:port/v1"
+        this.baseUrl = baseUrl.replace(/\/+$/, '').replace(/\/v1$/, '');
+        this.client = axios.create({
+            baseURL: `${this.baseUrl}/v1`,
+            timeout: 30000,
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+        });
+
+        if (outputChannel) {
+            this.debugService = DebugService.getInstance(outputChannel);
+        }
+    }
+
+    getEndpointUrl(): string {
+        return this.baseUrl;
+    }
+
+    private getModelId(): string {
+        const config = vscode.workspace.getConfiguration('duvut-assistant');
+        return config.get('modelId', 'llama3.2');
+    }
+
+    private getTemperature(): number {
+        const config = vscode.workspace.getConfiguration('duvut-assistant');
+        return config.get('temperature', 0.1);
+    }
+
+    private getMaxTokens(): number {
+        const config = vscode.workspace.getConfiguration('duvut-assistant');
+        return config.get('maxTokens', 4000);
+    }
+
+    async listModels(): Promise<BackendModel[]> {
+        try {
+            this.debugService?.logOllamaRequest('listModels', {}, '/v1/models');
+            const response = await this.client.get<ModelList>('/models');
+            this.debugService?.logOllamaResponse('listModels', response.data, '/v1/models');
+            return (response.data.data || []).map(model => ({
+                name: model.id,
+                modified_at: model.created ? new Date(model.created * 1000).toISOString() : undefined,
+                details: { family: model.owned_by }
+            }));
+        } catch (error) {
+            this.debugService?.logOllamaError('listModels', error, '/v1/models');
+            throw new Error(`Failed to connect to the OpenAI-compatible server at ${this.baseUrl}.`);
+        }
+    }
+
+    async checkConnection(): Promise<boolean> {
+        try {
+            await this.listModels();
+            return true;
+        } catch (error) {
+            this.debugService?.log('checkConnection', `Failed to connect to ${this.baseUrl}`, error);
+            return false;
+        }
+    }
+
+    async chat(messages: ChatMessage[], model: string, options: RequestOptions = {}): Promise<string> {
+        const { timeoutMs, signal, tools } = options;
+        const request = {
+            model,
+            messages: this.toRequestMessages(messages),
+            stream: false,
+            temperature: options.temperature ?? this.getTemperature(),
+            max_tokens: this.getMaxTokens(),
+            top_p: options.topP,
+            stop: options.stop,
+            tools: tools && tools.length > 0 ? tools : undefined,
+        };
+        this.debugService?.logOllamaRequest('chat', request, '/v1/chat/completions');
+
+        try {
+            const config = timeoutMs ? { timeout: timeoutMs, signal } : { signal };
+            const response = await this.client.post<ChatCompletion>('/chat/completions', request, config);
+            this.debugService?.logOllamaResponse('chat', response.data, '/v1/chat/completions');
+            return response.data.choices?.[0]?.message?.content || NO_RESPONSE;
+        } catch (error) {
+            if (axios.isCancel(error) || signal?.aborted) {
+                throw new Error('Request cancelled');
+            }
+            this.debugService?.logOllamaError('chat', error, '/v1/chat/completions');
+            if (axios.isAxiosError(error) && error.code === 'ECONNABORTED' && timeoutMs) {
+                throw new Error(`Request timeout after ${timeoutMs}ms - try using a faster model for code completion`);
+            }
+            throw this.toApiError(error);
+        }
+    }
+
+    async *chatStream(messages: ChatMessage[], model?: string, options: RequestOptions = {}): AsyncGenerator<ChatStreamChunk, void, unknown> {
+        const { signal, tools } = options;
+        const request = {
+            model: model || this.getModelId(),
+            messages: this.toRequestMessages(messages),
+            stream: true,
+            // Ask for token counts in a final chunk
+            stream_options: { include_usage: true },
+            temperature: options.temperature ?? this.getTemperature(),
+            max_tokens: this.getMaxTokens(),
+            top_p: options.topP,
+            stop: options.stop,
+            tools: tools && tools.length > 0 ? tools : undefined,
+        };
+        this.debugService?.logOllamaRequest('chatStream', request, '/v1/chat/completions');
+        const startedAt = Date.now();
+        let firstTokenAt: number | undefined;
+        let usage: Usage | undefined;
+
+        try {
+            const response = await this.client.post('/chat/completions', request, {
+                responseType: 'stream',
+                signal,
+            });
+
+            // Tool call arguments arrive as JSON string fragments, keyed by index
+            const pendingToolCalls = new Map<number, { name: string; arguments: string }>();
+            let buffer = '';
+
+            for await (const chunk of response.data) {
+                buffer += chunk.toString();
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+
+                for (const line of lines) {
+                    const trimmed = line.trim();
+                    if (!trimmed.startsWith('data:')) continue;
+                    const payload = trimmed.substring(5).trim();
+                    if (payload === '[DONE]') {
+                        if (pendingToolCalls.size > 0) {
+                            yield { toolCalls: this.toToolCalls(pendingToolCalls) };
+                        }
+                        yield { stats: this.toResponseStats(request.model, usage, startedAt, firstTokenAt) };
+                        return;
+                    }
+
+                    let data: ChatCompletionChunk;
+                    try {
+                        data = JSON.parse(payload);
+                    } catch (parseError) {
+                        continue; // Skip invalid JSON lines
+                    }
+
+                    if (data.usage) {
+                        usage = data.usage;
+                    }
+                    const choice = data.choices?.[0];
+                    const delta = choice?.delta || {};
+                    if ((delta.content || delta.tool_calls) && firstTokenAt === undefined) {
+                        firstTokenAt = Date.now();
+                    }
+                    if (delta.content) {
+                        yield { content: delta.content };
+                    }
+                    for (const toolCall of delta.tool_calls || []) {
+                        const index = toolCall.index ?? 0;
+                        const pending = pendingToolCalls.get(index) || { name: '', arguments: '' };
+                        pending.name += toolCall.function?.name || '';
+                        pending.arguments += toolCall.function?.arguments || '';
+                        pendingToolCalls.set(index, pending);
+                    }
+                    if (choice?.finish_reason && pendingToolCalls.size > 0) {
+                        yield { toolCalls: this.toToolCalls(pendingToolCalls) };
+                        pendingToolCalls.clear();
+                    }
+                }
+            }
+
+            if (pendingToolCalls.size > 0) {
+                yield { toolCalls: this.toToolCalls(pendingToolCalls) };
+            }
+            yield { stats: this.toResponseStats(request.model, usage, startedAt, firstTokenAt) };
+        } catch (error) {
+            if (axios.isCancel(error) || signal?.aborted) {
+                this.debugService?.log('chatStream', 'Stream cancelled by caller');
+                return;
+            }
+            this.debugService?.logOllamaError('chatStream', error, '/v1/chat/completions');
+            if (axios.isAxiosError(error) && error.response) {
+                const detail = await this.readErrorBody(error.response.data);
+                throw new Error(`API error from ${this.baseUrl}: ${detail || error.message}`);
+            }
+            throw error;
+        }
+    }
+
+    async generateCompletion(prompt: string, model?: string, options: RequestOptions = {}): Promise<string> {
+        const { timeoutMs, signal } = options;
+        const request = {
+            model: model || this.getModelId(),
+            prompt,
+            stream: false,
+            temperature: options.temperature ?? this.getTemperature(),
+            max_tokens: this.getMaxTokens(),
+            top_p: options.topP,
+            stop: options.stop,
+        };
+        this.debugService?.logOllamaRequest('generateCompletion', request, '/v1/completions');
+
+        try {
+            const config = timeoutMs ? { timeout: timeoutMs, signal } : { signal };
+            const response = await this.client.post<Completion>('/completions', request, config);
+            return response.data.choices?.[0]?.text || NO_RESPONSE;
+        } catch (error) {
+            if (axios.isCancel(error) || signal?.aborted) {
+                throw new Error('Request cancelled');
+            }
+            this.debugService?.logOllamaError('generateCompletion', error, '/v1/completions');
+            throw this.toApiError(error);
+        }
+    }
+
+    async embed(input: string | string[], model: string, options: RequestOptions = {}): Promise<number[][]> {
+        const { timeoutMs, signal } = options;
+        try {
+            const config = timeoutMs ? { timeout: timeoutMs, signal } : { signal };
+            const response = await this.client.post<EmbeddingList>('/embeddings', { model, input }, config);
+            return (response.data.data || []).map(item => item.embedding);
+        } catch (error) {
+            if (axios.isCancel(error) || signal?.aborted) {
+                throw new Error('Request cancelled');
+            }
+            this.debugService?.logOllamaError('embed', error, '/v1/embeddings');
+            throw this.toApiError(error);
+        }
+    }
+
+    /**
+     * Convert Ollama-style messages to the OpenAI format. OpenAI links tool results
+     * to calls by ID, so IDs are generated for each assistant tool call and handed
+     * out to the tool messages that follow it in order.
+     */
+    private toRequestMessages(messages: ChatMessage[]): RequestMessage[] {
+        const pendingIds: string[] = [];
+        let callCounter = 0;
+
+        return messages.map((message): RequestMessage => {
+            if (message.role === 'assistant' && message.tool_calls?.length) {
+                const toolCalls = message.tool_calls.map((call): RequestToolCall => {
+                    const id = `call_${callCounter++}`;
+                    pendingIds.push(id);
+                    return {
+                        id,
+                        type: 'function',
+                        function: {
+                            name: call.function.name,
+                            arguments: JSON.stringify(call.function.arguments || {})
+                        }
+                    };
+                });
+                return { role: 'assistant', content: message.content || null, tool_calls: toolCalls };
+            }
+            if (message.role === 'tool') {
+                return { role: 'tool', content: message.content, tool_call_id: pendingIds.shift() || `call_${callCounter++}` };
+            }
+            return { role: message.role, content: message.content };
+        });
+    }
+
+    /**
+     * The OpenAI API reports token usage but no timings, so generation speed is
+     * measured from the first streamed token to the end of the stream
+     */
+    private toResponseStats(model: string, usage: Usage | undefined, startedAt: number, firstTokenAt?: number): ResponseStats {
+        const endedAt = Date.now();
+        const completionTokens = usage?.completion_tokens;
+        const generationMs = firstTokenAt !== undefined ? endedAt - firstTokenAt : 0;
+        return {
+            model,
+            promptTokens: usage?.prompt_tokens,
+            completionTokens,
+            tokensPerSecond: completionTokens && generationMs > 0 ? completionTokens / (generationMs / 1000) : undefined,
+            timeToFirstTokenMs: firstTokenAt !== undefined ? firstTokenAt - startedAt : undefined,
+            totalDurationMs: endedAt - startedAt,
+        };
+    }
+
+    private toToolCalls(pending: Map<number, { name: string; arguments: string }>): ToolCall[] {
+        return Array.from(pending.values()).map(call => {
+            let args: Record<string, any> = {};
+            try {
+                args = call.arguments ? JSON.parse(call.arguments) : {};
+            } catch {
+                this.debugService?.log('chatStream', `Could not parse tool call arguments for ${call.name}`, call.arguments);
+            }
+            return { function: { name: call.name, arguments: args } };
+        });
+    }
+
+    private toApiError(error: unknown): Error {
+        if (axios.isAxiosError<ErrorBody>(error)) {
+            if (error.code === 'ECONNREFUSED') {
+                return new Error(`Cannot connect to the OpenAI-compatible server at ${this.baseUrl}. Make sure it is running.`);
+            }
+            const detail = error.response?.data ? errorDetail(error.response.data) : '';
+            return new Error(`API error from ${this.baseUrl}: ${detail || error.message}`);
+        }
+        return error instanceof Error ? error : new Error(String(error));
+    }
+
+    /**
+     * Error detail from a response body, which is a stream for streamed requests
+     */
+    private async readErrorBody(data: unknown): Promise<string> {
+        if (!data) return '';
+        if (typeof data === 'object' && Symbol.asyncIterator in data) {
+            let body = '';
+            try {
+                for await (const chunk of data as AsyncIterable<Buffer>) {
+                    body += chunk.toString();
+                }
+            } catch {
+                // Fall through with whatever was read
+            }
+            data = body;
+        }
+        if (typeof data === 'string') {
+            try {
+                return errorDetail(JSON.parse(data)) || data;
+            } catch {
+                return data;
+            }
+        }
+        return errorDetail(data as ErrorBody);
+    }
+}
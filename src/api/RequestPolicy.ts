@@ -0,0 +1,300 @@
+import axios from 'axios';
+import * as vscode from 'vscode';
+import { DebugService } from '../services/DebugService';
+
+/**
+ * User-facing categories for failed Ollama requests
+ */
+export type OllamaErrorCategory =
+    | 'not_running'
+    | 'model_missing'
+    | 'out_of_memory'
+    | 'timeout'
+    | 'cancelled'
+    | 'unknown';
+
+export class OllamaError extends Error {
+    constructor(
+        message: string,
+        public readonly category: OllamaErrorCategory,
+        public readonly status?: number,
+        public readonly detail?: string
+    ) {
+        super(message);
+        this.name = 'OllamaError';
+    }
+}
+
+export interface RequestContext {
+    baseUrl: string;
+    model?: string;
+    timeoutMs?: number;
+    signal?: AbortSignal;
+}
+
+/**
+ * Map a failed request (axios error, Ollama error payload or anything else)
+ * onto one of the user-facing categories with an actionable message
+ */
+export function categorizeError(error: unknown, context: RequestContext): OllamaError {
+    if (error instanceof OllamaError) {
+        return error;
+    }
+    if (axios.isCancel(error) || context.signal?.aborted) {
+        return new OllamaError('Request cancelled', 'cancelled');
+    }
+
+    if (axios.isAxiosError(error)) {
+        const status = error.response?.status;
+        const payload = error.response?.data;
+        const detail: string = (typeof payload === 'string' ? payload : payload?.error) || '';
+
+        if (!error.response) {
+            if (['ECONNABORTED', 'ETIMEDOUT'].includes(error.code || '')) {
+                const after = context.timeoutMs ? ` after ${context.timeoutMs}ms` : '';
+                return new OllamaError(
+                    `Request to Ollama timed out${after}. The model may still be loading, or try a smaller model.`,
+                    'timeout',
+                    undefined,
+                    error.code
+                );
+            }
+            return new OllamaError(
+                `Cannot connect to Ollama at ${context.baseUrl}. Make sure Ollama is running (\`ollama serve\`).`,
+                'not_running',
+                undefined,
+                error.code
+            );
+        }
+
+        return categorizeDetail(detail || error.message, status, context);
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    return categorizeDetail(message, undefined, context);
+}
+
+function categorizeDetail(detail: string, status: number | undefined, context: RequestContext): OllamaError {
+    if (/model ['"]?[^'"]*['"]? not found|pull(ing)? it first|file does not exist/i.test(detail) || status === 404) {
+        const model = context.model ? `"${context.model}" ` : '';
+        return new OllamaError(
+            `Model ${model}is not installed on ${context.baseUrl}. Pull it from the Models view or with \`ollama pull ${context.model || '<model>'}\`.`,
+            'model_missing',
+            status,
+            detail
+        );
+    }
+    if (/out of memory|requires more system memory|insufficient memory|cudaMalloc failed|failed to allocate/i.test(detail)) {
+        return new OllamaError(
+            `Ollama ran out of memory loading ${context.model || 'the model'}. Try a smaller model or quantization, or unload other models.`,
+            'out_of_memory',
+            status,
+            detail
+        );
+    }
+    if (/timed? ?out|deadline exceeded/i.test(detail)) {
+        return new OllamaError(`Request to Ollama timed out: ${detail}`, 'timeout', status, detail);
+    }
+    return new OllamaError(`Ollama API error: ${detail}`, 'unknown', status, detail);
+}
+
+/**
+ * The server could not be reached at all. Timeouts set by the caller (ECONNABORTED)
+ * are left out: a slow answer, e.g. while a model loads, does not mean the server is down.
+ */
+function isConnectionFailure(error: OllamaError): boolean {
+    return error.category === 'not_running' || (error.category === 'timeout' && error.detail === 'ETIMEDOUT');
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Stops sending requests to a server that keeps failing, then lets a single
+ * trial request through after a cooldown to see if it has recovered
+ */
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private openedAt = 0;
+    /** The trial request of the half-open state is still running */
+    private probeInFlight = false;
+
+    constructor(
+        private readonly getThreshold: () => number,
+        private readonly getCooldownMs: () => number
+    ) {}
+
+    /**
+     * Whether a request may be sent. In the half-open state this claims the
+     * single trial request, so it must be followed by `recordSuccess()`,
+     * `recordFailure()` or `releaseProbe()`.
+     */
+    canRequest(): boolean {
+        if (this.state === 'open' && Date.now() - this.openedAt >= this.getCooldownMs()) {
+            this.state = 'half-open';
+        }
+        if (this.state === 'half-open') {
+            if (this.probeInFlight) {
+                return false;
+            }
+            this.probeInFlight = true;
+        }
+        return this.state !== 'open';
+    }
+
+    /**
+     * End a trial request that said nothing about the server, e.g. a cancelled one
+     */
+    releaseProbe(): void {
+        this.probeInFlight = false;
+    }
+
+    remainingCooldownMs(): number {
+        return Math.max(0, this.openedAt + this.getCooldownMs() - Date.now());
+    }
+
+    recordSuccess(): void {
+        this.probeInFlight = false;
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+    }
+
+    /**
+     * @returns true when this failure opened the circuit
+     */
+    recordFailure(): boolean {
+        this.probeInFlight = false;
+        this.consecutiveFailures++;
+        if (this.state === 'half-open' || (this.state === 'closed' && this.consecutiveFailures >= this.getThreshold())) {
+            this.state = 'open';
+            this.openedAt = Date.now();
+            return true;
+        }
+        return false;
+    }
+
+    getState(): CircuitState {
+        return this.state;
+    }
+}
+
+export interface ExecuteOptions {
+    /** Safe to repeat (reads such as /api/tags or /api/show) */
+    idempotent: boolean;
+    model?: string;
+    timeoutMs?: number;
+    signal?: AbortSignal;
+}
+
+/**
+ * Retry, backoff and circuit-breaking for requests to one Ollama server
+ */
+export class RequestPolicy {
+    private breaker: CircuitBreaker;
+
+    constructor(private readonly baseUrl: string, private readonly debugService?: DebugService) {
+        this.breaker = new CircuitBreaker(
+            () => this.getSetting('circuitBreakerThreshold', 5),
+            () => this.getSetting('circuitBreakerCooldown', 30) * 1000
+        );
+    }
+
+    private getSetting(key: string, defaultValue: number): number {
+        return vscode.workspace.getConfiguration('duvut-assistant.requests').get(key, defaultValue);
+    }
+
+    async execute<T>(operation: string, request: () => Promise<T>, options: ExecuteOptions): Promise<T> {
+        const context: RequestContext = {
+            baseUrl: this.baseUrl,
+            model: options.model,
+            timeoutMs: options.timeoutMs,
+            signal: options.signal
+        };
+
+        if (!this.breaker.canRequest()) {
+            const seconds = Math.ceil(this.breaker.remainingCooldownMs() / 1000);
+            throw new OllamaError(
+                `Cannot connect to Ollama at ${this.baseUrl}. Too many consecutive failures; ` +
+                    (seconds > 0 ? `trying again in ${seconds}s.` : 'waiting for a trial request to finish.'),
+                'not_running'
+            );
+        }
+
+        const maxRetries = Math.max(0, this.getSetting('maxRetries', 3));
+        const baseDelayMs = this.getSetting('retryBaseDelay', 500);
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const result = await request();
+                this.breaker.recordSuccess();
+                return result;
+            } catch (rawError) {
+                const error = categorizeError(rawError, context);
+                if (error.category === 'cancelled') {
+                    this.breaker.releaseProbe();
+                    throw error;
+                }
+
+                if (isConnectionFailure(error)) {
+                    if (this.breaker.recordFailure()) {
+                        this.debugService?.log(operation, `Circuit opened for ${this.baseUrl} after repeated failures`);
+                    }
+                } else if (error.category === 'timeout') {
+                    // Says nothing either way about the server
+                    this.breaker.releaseProbe();
+                } else {
+                    // The server answered, so it is reachable again
+                    this.breaker.recordSuccess();
+                }
+
+                if (attempt >= maxRetries || !this.isRetryable(error, options) || !this.breaker.canRequest()) {
+                    throw error;
+                }
+
+                const delay = this.backoffDelay(attempt, baseDelayMs);
+                this.debugService?.log(operation, `Attempt ${attempt + 1} failed (${error.category}), retrying in ${delay}ms`, error.message);
+                await this.sleep(delay, options.signal);
+            }
+        }
+    }
+
+    /**
+     * Reads are retried for any transient failure. Other requests are only retried
+     * when the connection was refused, because then the server never received them.
+     */
+    private isRetryable(error: OllamaError, options: ExecuteOptions): boolean {
+        if (!options.idempotent) {
+            return error.category === 'not_running' && error.detail === 'ECONNREFUSED';
+        }
+        return error.category === 'not_running' ||
+            error.category === 'timeout' ||
+            (error.category === 'unknown' && (error.status || 0) >= 500);
+    }
+
+    /**
+     * Exponential backoff with "equal jitter": half the delay is fixed, half random
+     */
+    private backoffDelay(attempt: number, baseDelayMs: number): number {
+        const maxDelayMs = 10000;
+        const exponential = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+        return Math.round(exponential / 2 + Math.random() * exponential / 2);
+    }
+
+    private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new OllamaError('Request cancelled', 'cancelled'));
+                return;
+            }
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(new OllamaError('Request cancelled', 'cancelled'));
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+}
@@ -4,9 +4,9 @@ import { DebugService } from '../services/DebugService';
 
 export function registerCommands(context: vscode.ExtensionContext, provider: OllamaProvider, outputChannel: vscode.OutputChannel) {
     context.subscriptions.push(
-        vscode.commands.registerCommand('duvut-assistant.newTask', () => {
-            // Focus the sidebar to start a new conversation
-            vscode.commands.executeCommand('workbench.view.extension.duvut-assistant-ActivityBar');
+        vscode.commands.registerCommand('duvut-assistant.newTask', async () => {
+            await vscode.commands.executeCommand('workbench.view.extension.duvut-assistant-ActivityBar');
+            await provider.newSession();
         })
     );
 
@@ -27,7 +27,7 @@ export function registerCommands(context: vscode.ExtensionContext, provider: Oll
             }
 
             const model = args && args.length > 0 ? args[0] : undefined;
-            await provider.explainCode(selectedText, model);
+            await provider.runSlashCommand('explain', model);
             // Focus the sidebar to see the response
             vscode.commands.executeCommand('workbench.view.extension.duvut-assistant-ActivityBar');
         })
@@ -50,7 +50,7 @@ export function registerCommands(context: vscode.ExtensionContext, provider: Oll
             }
 
             const model = args && args.length > 0 ? args[0] : undefined;
-            await provider.improveCode(selectedText, model);
+            await provider.runSlashCommand('improve', model);
             // Focus the sidebar to see the response
             vscode.commands.executeCommand('workbench.view.extension.duvut-assistant-ActivityBar');
         })
@@ -73,18 +73,71 @@ export function registerCommands(context: vscode.ExtensionContext, provider: Oll
             }
 
             const model = args && args.length > 0 ? args[0] : undefined;
-            await provider.fixCode(selectedText, model);
+            await provider.runSlashCommand('fix', model);
             // Focus the sidebar to see the response
             vscode.commands.executeCommand('workbench.view.extension.duvut-assistant-ActivityBar');
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('duvut-assistant.runPromptTemplate', async () => {
+            await vscode.commands.executeCommand('workbench.view.extension.duvut-assistant-ActivityBar');
+            await provider.runPromptTemplate();
+        })
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('duvut-assistant.settings', () => {
             vscode.commands.executeCommand('workbench.action.openSettings', 'duvut-assistant');
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('duvut-assistant.manageModels', async () => {
+            await vscode.commands.executeCommand('workbench.view.extension.duvut-assistant-ActivityBar');
+            provider.showModelManager();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('duvut-assistant.exportSession', () => provider.exportSession())
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('duvut-assistant.importSession', async () => {
+            await vscode.commands.executeCommand('workbench.view.extension.duvut-assistant-ActivityBar');
+            await provider.importSession();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('duvut-assistant.compactSession', () => provider.compactSession())
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('duvut-assistant.showEffectivePrompt', () => provider.showEffectivePrompt())
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('duvut-assistant.acceptProposedChange', (uri?: vscode.Uri) => provider.settleProposedChange(true, uri))
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('duvut-assistant.rejectProposedChange', (uri?: vscode.Uri) => provider.settleProposedChange(false, uri))
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('duvut-assistant.reviewChanges', () => provider.reviewChangeSet())
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('duvut-assistant.restoreCheckpoint', () => provider.restoreCheckpoint())
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('duvut-assistant.undoLastChange', () => provider.undoLastChange())
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('duvut-assistant.testCodeDetection', () => {
             provider.testCodeRecommendationDetection();
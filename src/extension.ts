@@ -3,6 +3,9 @@ import { OllamaProvider } from './providers/OllamaProvider';
 import { CodeCompletionProvider } from './providers/CodeCompletionProvider';
 import { registerCommands } from './commands/registerCommands';
 import { DebugService } from './services/DebugService';
+import { EndpointManager } from './services/EndpointManager';
+import { MetricsService } from './services/MetricsService';
+import { ModelProfiles } from './services/ModelProfiles';
 
 let outputChannel: vscode.OutputChannel;
 
@@ -13,6 +16,17 @@ export async function activate(context: vscode.ExtensionContext) {
     // Initialize debug service
     const debugService = DebugService.getInstance(outputChannel);
     
+    // Start probing the configured Ollama endpoints
+    const endpointManager = EndpointManager.getInstance(outputChannel);
+    endpointManager.startHealthChecks();
+    context.subscriptions.push(endpointManager);
+    
+    // Status bar item with rolling response metrics per model
+    context.subscriptions.push(MetricsService.getInstance());
+    
+    // Per-model prompt additions and sampling options from settings and .duvut/models.json
+    context.subscriptions.push(ModelProfiles.getInstance(outputChannel));
+    
     outputChannel.appendLine('Duvut Assistant extension activated');
 
     vscode.window.showInformationMessage('Duvut Assistant extension activated!');
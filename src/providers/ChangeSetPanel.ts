@@ -0,0 +1,448 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { applyPatch, Hunk, structuredPatch } from 'diff';
+
+/**
+ * One file of a change set, as it is now and as the assistant proposes it
+ */
+export interface ChangeSetFile {
+    filePath: string;
+    /** Undefined for a file that does not exist yet */
+    current?: string;
+    /** Undefined when the proposed content could not be worked out */
+    proposed?: string;
+    /** Why the proposed content could not be worked out */
+    error?: string;
+    /** Shown with the file, e.g. about diff hunks that did not apply */
+    note?: string;
+}
+
+/**
+ * The accepted hunks of one file, applied to its current content
+ */
+export interface AcceptedFileChange {
+    filePath: string;
+    /** The content the hunks were made from; undefined for a new file */
+    original?: string;
+    content: string;
+    acceptedHunks: number;
+    totalHunks: number;
+}
+
+export interface ChangeSetResult {
+    accepted: AcceptedFileChange[];
+    /** Files with changes of which no hunk was accepted */
+    rejected: string[];
+    /** Files whose accepted hunks could not be applied */
+    failed: Array<{ filePath: string; error: string }>;
+}
+
+interface ReviewFile extends ChangeSetFile {
+    hunks: Hunk[];
+}
+
+interface OpenChangeSet {
+    files: ReviewFile[];
+    resolve(result: ChangeSetResult | undefined): void;
+}
+
+/** Lines of context around each hunk, as in `git diff` */
+const HUNK_CONTEXT = 3;
+
+/**
+ * Editor panel listing every file change of an answer, hunk by hunk, so a
+ * change set can be accepted in parts and written in one go. The review
+ * resolves with the accepted hunks when the user applies them, and with
+ * undefined when the panel is closed.
+ */
+export class ChangeSetPanel implements vscode.Disposable {
+    private panel?: vscode.WebviewPanel;
+    private open?: OpenChangeSet;
+    private disposables: vscode.Disposable[] = [];
+
+    review(title: string, files: ChangeSetFile[]): Promise<ChangeSetResult | undefined> {
+        // A new change set replaces the one being reviewed
+        this.settle(undefined);
+
+        const reviewFiles: ReviewFile[] = files.map(file => ({
+            ...file,
+            hunks: file.proposed === undefined
+                ? []
+                : structuredPatch(file.filePath, file.filePath, file.current ?? '', file.proposed, '', '', { context: HUNK_CONTEXT }).hunks
+        }));
+
+        if (!this.panel) {
+            this.panel = vscode.window.createWebviewPanel('duvutChangeSet', title, vscode.ViewColumn.Active, {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            });
+            this.panel.webview.onDidReceiveMessage(message => this.handleMessage(message), undefined, this.disposables);
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.disposables.forEach(d => d.dispose());
+                this.disposables = [];
+                this.settle(undefined);
+            }, undefined, this.disposables);
+        }
+        this.panel.title = title;
+        this.panel.webview.html = this.getHtml(reviewFiles);
+        this.panel.reveal();
+
+        return new Promise(resolve => {
+            this.open = { files: reviewFiles, resolve };
+        });
+    }
+
+    private handleMessage(message: { type: string; [key: string]: any }) {
+        if (!this.open) return;
+
+        switch (message.type) {
+            case 'apply':
+                this.settle(this.collect(this.open.files, message.selection || {}));
+                this.panel?.dispose();
+                break;
+            case 'cancel':
+                this.panel?.dispose();
+                break;
+            case 'openFile': {
+                const file = this.open.files[message.index];
+                const folder = vscode.workspace.workspaceFolders?.[0];
+                if (file && file.current !== undefined) {
+                    const filePath = path.isAbsolute(file.filePath) || !folder ? file.filePath : path.join(folder.uri.fsPath, file.filePath);
+                    vscode.window.showTextDocument(vscode.Uri.file(filePath), { preview: true, viewColumn: vscode.ViewColumn.Beside });
+                }
+                break;
+            }
+        }
+    }
+
+    /**
+     * Apply the accepted hunks of each file to its current content.
+     * `selection` maps a file index to the indexes of its accepted hunks.
+     */
+    private collect(files: ReviewFile[], selection: Record<string, number[]>): ChangeSetResult {
+        const result: ChangeSetResult = { accepted: [], rejected: [], failed: [] };
+        files.forEach((file, index) => {
+            if (file.proposed === undefined || file.hunks.length === 0) return;
+
+            const chosen = new Set(selection[index] || []);
+            const hunks = file.hunks.filter((_hunk, hunkIndex) => chosen.has(hunkIndex));
+            if (hunks.length === 0) {
+                result.rejected.push(file.filePath);
+                return;
+            }
+            const content = hunks.length === file.hunks.length
+                ? file.proposed
+                : applyPatch(file.current ?? '', { hunks });
+            // The hunks were made from the current content, so this should not happen,
+            // but writing every hunk instead of the chosen ones would be worse than nothing
+            if (content === false) {
+                result.failed.push({ filePath: file.filePath, error: `The ${hunks.length} accepted of ${file.hunks.length} hunks could not be applied without the others` });
+                return;
+            }
+            result.accepted.push({ filePath: file.filePath, original: file.current, content, acceptedHunks: hunks.length, totalHunks: file.hunks.length });
+        });
+        return result;
+    }
+
+    private settle(result: ChangeSetResult | undefined) {
+        const open = this.open;
+        this.open = undefined;
+        open?.resolve(result);
+    }
+
+    private getHtml(files: ReviewFile[]): string {
+        const data = files.map(file => ({
+            filePath: file.filePath,
+            created: file.current === undefined,
+            error: file.error,
+            note: file.note,
+            hunks: file.hunks.map(hunk => ({
+                header: `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+                lines: hunk.lines
+            }))
+        }));
+        // Keeps file contents from closing the script tag
+        const json = JSON.stringify(data).replace(/</g, '\\u003c');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Review Changes</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            margin: 0;
+            padding: 0 16px 16px;
+        }
+        .toolbar {
+            position: sticky;
+            top: 0;
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 12px 0;
+            background-color: var(--vscode-editor-background);
+            border-bottom: 1px solid var(--vscode-panel-border);
+            z-index: 1;
+        }
+        .toolbar .summary {
+            flex: 1;
+        }
+        button {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            padding: 4px 12px;
+            border-radius: 2px;
+            cursor: pointer;
+        }
+        button:hover {
+            background: var(--vscode-button-secondaryHoverBackground);
+        }
+        button.primary {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+        button.primary:hover {
+            background: var(--vscode-button-hoverBackground);
+        }
+        button:disabled {
+            opacity: 0.5;
+            cursor: not-allowed;
+        }
+        .file {
+            margin-top: 16px;
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+        }
+        .file-header {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 6px 8px;
+            background-color: var(--vscode-sideBarSectionHeader-background);
+            font-weight: 600;
+        }
+        .file-header .path {
+            flex: 1;
+            cursor: pointer;
+        }
+        .file-header .path:hover {
+            text-decoration: underline;
+        }
+        .file-message {
+            padding: 6px 8px;
+            font-size: 0.9em;
+        }
+        .file-message.error {
+            color: var(--vscode-errorForeground);
+        }
+        .hunk {
+            border-top: 1px solid var(--vscode-panel-border);
+        }
+        .hunk.rejected pre {
+            opacity: 0.45;
+        }
+        .hunk-header {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 4px 8px;
+            font-family: var(--vscode-editor-font-family);
+            font-size: 0.9em;
+            color: var(--vscode-descriptionForeground);
+        }
+        .hunk-header .header {
+            flex: 1;
+        }
+        .stats .added {
+            color: var(--vscode-gitDecoration-addedResourceForeground);
+        }
+        .stats .removed {
+            color: var(--vscode-gitDecoration-deletedResourceForeground);
+        }
+        pre {
+            margin: 0;
+            padding: 4px 0;
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            overflow-x: auto;
+        }
+        .line {
+            display: block;
+            padding: 0 8px;
+            white-space: pre;
+        }
+        .line.add {
+            background-color: var(--vscode-diffEditor-insertedLineBackground, var(--vscode-diffEditor-insertedTextBackground));
+        }
+        .line.remove {
+            background-color: var(--vscode-diffEditor-removedLineBackground, var(--vscode-diffEditor-removedTextBackground));
+        }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <span class="summary" id="summary"></span>
+        <button id="acceptAll">Accept All</button>
+        <button id="rejectAll">Reject All</button>
+        <button id="cancel">Cancel</button>
+        <button class="primary" id="apply">Apply Selected</button>
+    </div>
+    <div id="files"></div>
+    <script>
+        const vscode = acquireVsCodeApi();
+        const files = ${json};
+        // Index of each file mapped to the accepted state of each of its hunks
+        const accepted = files.map(file => file.hunks.map(() => true));
+
+        function escapeHtml(text) {
+            return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+        }
+
+        function countLines(lines) {
+            return {
+                added: lines.filter(line => line.startsWith('+')).length,
+                removed: lines.filter(line => line.startsWith('-')).length
+            };
+        }
+
+        function statsHtml(counts) {
+            return '<span class="stats"><span class="added">+' + counts.added + '</span> <span class="removed">−' + counts.removed + '</span></span>';
+        }
+
+        function render() {
+            const container = document.getElementById('files');
+            container.innerHTML = '';
+            files.forEach((file, fileIndex) => {
+                const section = document.createElement('div');
+                section.className = 'file';
+
+                const header = document.createElement('div');
+                header.className = 'file-header';
+                const fileToggle = document.createElement('input');
+                fileToggle.type = 'checkbox';
+                fileToggle.disabled = file.hunks.length === 0;
+                fileToggle.addEventListener('change', () => {
+                    accepted[fileIndex] = file.hunks.map(() => fileToggle.checked);
+                    update();
+                });
+                header.appendChild(fileToggle);
+                const path = document.createElement('span');
+                path.className = 'path';
+                path.textContent = file.filePath + (file.created ? ' (new file)' : '');
+                path.title = file.created ? '' : 'Open the current file';
+                path.addEventListener('click', () => vscode.postMessage({ type: 'openFile', index: fileIndex }));
+                header.appendChild(path);
+                const fileStats = document.createElement('span');
+                fileStats.innerHTML = statsHtml(countLines(file.hunks.flatMap(hunk => hunk.lines)));
+                header.appendChild(fileStats);
+                section.appendChild(header);
+
+                const messages = [];
+                if (file.error) messages.push({ text: file.error, error: true });
+                if (file.note) messages.push({ text: file.note });
+                if (!file.error && file.hunks.length === 0) messages.push({ text: 'The file already contains these changes.' });
+                messages.forEach(message => {
+                    const element = document.createElement('div');
+                    element.className = 'file-message' + (message.error ? ' error' : '');
+                    element.textContent = message.text;
+                    section.appendChild(element);
+                });
+
+                file.hunks.forEach((hunk, hunkIndex) => {
+                    const hunkElement = document.createElement('div');
+                    hunkElement.className = 'hunk';
+
+                    const hunkHeader = document.createElement('label');
+                    hunkHeader.className = 'hunk-header';
+                    const toggle = document.createElement('input');
+                    toggle.type = 'checkbox';
+                    toggle.addEventListener('change', () => {
+                        accepted[fileIndex][hunkIndex] = toggle.checked;
+                        update();
+                    });
+                    hunkHeader.appendChild(toggle);
+                    const title = document.createElement('span');
+                    title.className = 'header';
+                    title.textContent = hunk.header;
+                    hunkHeader.appendChild(title);
+                    const hunkStats = document.createElement('span');
+                    hunkStats.innerHTML = statsHtml(countLines(hunk.lines));
+                    hunkHeader.appendChild(hunkStats);
+                    hunkElement.appendChild(hunkHeader);
+
+                    const pre = document.createElement('pre');
+                    pre.innerHTML = hunk.lines.map(line => {
+                        const kind = line.startsWith('+') ? 'add' : line.startsWith('-') ? 'remove' : 'context';
+                        return '<span class="line ' + kind + '">' + escapeHtml(line || ' ') + '</span>';
+                    }).join('');
+                    hunkElement.appendChild(pre);
+                    section.appendChild(hunkElement);
+                });
+
+                container.appendChild(section);
+            });
+            update();
+        }
+
+        function update() {
+            const totals = { added: 0, removed: 0, hunks: 0, files: 0 };
+            document.querySelectorAll('.file').forEach((section, fileIndex) => {
+                const states = accepted[fileIndex];
+                const fileToggle = section.querySelector('.file-header input');
+                const chosen = states.filter(Boolean).length;
+                fileToggle.checked = states.length > 0 && chosen === states.length;
+                fileToggle.indeterminate = chosen > 0 && chosen < states.length;
+                if (chosen > 0) totals.files++;
+                section.querySelectorAll('.hunk').forEach((hunkElement, hunkIndex) => {
+                    const isAccepted = states[hunkIndex];
+                    hunkElement.querySelector('input').checked = isAccepted;
+                    hunkElement.classList.toggle('rejected', !isAccepted);
+                    if (!isAccepted) return;
+                    const counts = countLines(files[fileIndex].hunks[hunkIndex].lines);
+                    totals.added += counts.added;
+                    totals.removed += counts.removed;
+                    totals.hunks++;
+                });
+            });
+            document.getElementById('summary').innerHTML = totals.hunks + ' hunk' + (totals.hunks === 1 ? '' : 's') +
+                ' in ' + totals.files + ' of ' + files.length + ' file' + (files.length === 1 ? '' : 's') + ' selected ' + statsHtml(totals);
+            document.getElementById('apply').disabled = totals.hunks === 0;
+        }
+
+        function setAll(value) {
+            accepted.forEach((states, fileIndex) => {
+                accepted[fileIndex] = states.map(() => value);
+            });
+            update();
+        }
+
+        document.getElementById('acceptAll').addEventListener('click', () => setAll(true));
+        document.getElementById('rejectAll').addEventListener('click', () => setAll(false));
+        document.getElementById('cancel').addEventListener('click', () => vscode.postMessage({ type: 'cancel' }));
+        document.getElementById('apply').addEventListener('click', () => {
+            const selection = {};
+            accepted.forEach((states, fileIndex) => {
+                selection[fileIndex] = states.map((isAccepted, hunkIndex) => isAccepted ? hunkIndex : -1).filter(index => index >= 0);
+            });
+            vscode.postMessage({ type: 'apply', selection });
+        });
+
+        render();
+    </script>
+</body>
+</html>`;
+    }
+
+    dispose() {
+        this.settle(undefined);
+        this.panel?.dispose();
+    }
+}
@@ -22,15 +22,18 @@ export class CodeCompletionProvider implements vscode.CompletionItemProvider {
                 return undefined;
             }
 
+            if (token.isCancellationRequested) {
+                return undefined;
+            }
+
             // Check if Ollama is available
-            const isConnected = await this.completionService['ollamaClient'].checkConnection();
-            if (!isConnected) {
+            if (!this.completionService.isBackendAvailable()) {
                 this.outputChannel.appendLine('[CodeCompletion] Ollama not connected, skipping AI suggestions');
                 return undefined;
             }
 
             // Get AI suggestions
-            const suggestions = await this.completionService.getSuggestions(document, position, context);
+            const suggestions = await this.completionService.getSuggestions(document, position, context, token);
             
             if (suggestions.length > 0) {
                 this.outputChannel.appendLine(`[CodeCompletion] Provided ${suggestions.length} AI suggestions`);
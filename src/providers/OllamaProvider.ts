@@ -1,6 +1,29 @@
 import * as vscode from 'vscode';
-import { OllamaClient, ChatMessage } from '../api/OllamaClient';
+import { ChatMessage, ResponseStats, ToolCall } from '../api/LlmBackend';
+import { OllamaClient } from '../api/OllamaClient';
+import { OllamaError } from '../api/RequestPolicy';
+import { ContextManager } from '../services/ContextManager';
+import { ConversationCompactor } from '../services/ConversationCompactor';
+import { ConversationTree } from '../services/ConversationTree';
+import { EndpointManager } from '../services/EndpointManager';
+import { MetricsService } from '../services/MetricsService';
+import { Mention, MentionResolver, MentionSuggestion, ResolvedMention, withMentionContext } from '../services/MentionResolver';
+import { ExportFormat, SessionExporter } from '../services/SessionExporter';
+import { getGitRepository } from '../services/GitRepository';
+import { hasInputVariable, PromptTemplateLibrary } from '../services/PromptTemplateLibrary';
+import { ProjectRules } from '../services/ProjectRules';
+import { ModelProfiles } from '../services/ModelProfiles';
+import { getTestFilePath, SlashCommandAction, SlashCommandInvocation, SlashCommandRegistry } from '../services/SlashCommandRegistry';
+import { getStepFailure, parsePlan, PLAN_INSTRUCTIONS, PLAN_TIMEOUT_MS, PlanStep, planToMarkdown, stepPrompt, TaskPlan } from '../services/TaskPlanner';
+import { CheckpointStore } from '../services/CheckpointStore';
+import { ChangePreview, ChangeReview } from '../services/ChangePreview';
+import { ChangeSetFile, ChangeSetPanel, ChangeSetResult } from './ChangeSetPanel';
+import { applySearchReplace, applyUnifiedDiff, hasLineMarkers, hasSearchReplaceBlocks, HunkResult, isUnifiedDiff, mergePartialEdit, parseSearchReplaceBlocks, PatchResult, splitUnifiedDiff } from '../services/FileEdits';
+import { ChatSession, DEFAULT_SESSION_TITLE, SessionChange, SessionMessage, SessionStore } from '../services/SessionStore';
 import { ToolsService } from '../tools/ToolsService';
+import { ToolRegistry, ToolResult } from '../tools/ToolRegistry';
+import { AgentRun, AgentStep } from '../tools/AgentRun';
+import { XmlToolCallParser, XmlToolTag } from '../tools/XmlToolCallParser';
 import { DebugService } from '../services/DebugService';
 
 interface WebviewMessage {
@@ -8,24 +31,115 @@ interface WebviewMessage {
     [key: string]: any;
 }
 
+/**
+ * Answers of a side-by-side comparison, waiting for the user to keep one
+ */
+interface PendingComparison {
+    id: string;
+    sessionId: string;
+    /** The user message the answers reply to */
+    parentId: string;
+    answers: Array<{ model: string; content: string; truncated?: boolean }>;
+}
+
+/**
+ * One row of the Models view: a model installed on one endpoint
+ */
+interface ModelRow {
+    name: string;
+    /** Name of the endpoint the model is installed on */
+    endpoint: string;
+    /** Pull, delete, copy and show are only available on Ollama endpoints */
+    manageable: boolean;
+    size?: number;
+    family?: string;
+    parameterSize?: string;
+    quantization?: string;
+    modifiedAt?: string;
+    /** Loaded into memory right now */
+    loaded: boolean;
+    sizeVram?: number;
+    expiresAt?: string;
+}
+
 export class OllamaProvider implements vscode.WebviewViewProvider {
     private _view?: vscode.WebviewView;
-    private ollamaClient: OllamaClient;
+    private endpointManager: EndpointManager;
+    private contextManager: ContextManager;
+    private compactor: ConversationCompactor;
+    private mentionResolver: MentionResolver;
+    private promptTemplates: PromptTemplateLibrary;
+    private projectRules: ProjectRules;
+    /** System prompt of the last request, for `Show Effective System Prompt` */
+    private lastSystemPrompt?: { sentAt: number; prompts: Array<{ model: string; prompt: string }> };
+    private modelProfiles: ModelProfiles;
+    private slashCommands: SlashCommandRegistry;
     private toolsService: ToolsService;
+    private toolRegistry: ToolRegistry;
+    private modelsWithoutToolSupport = new Set<string>();
     private debugService: DebugService;
-    private chatHistory: ChatMessage[] = [];
+    private sessionStore: SessionStore;
+    private checkpoints: CheckpointStore;
+    private changePreview: ChangePreview;
+    private changeSetPanel = new ChangeSetPanel();
+    private sessionExporter = new SessionExporter();
+    private session: ChatSession;
     private selectedModel: string = 'llama3.2:latest';
     private pendingRecommendations: Map<string, Array<{filePath: string, code: string, language?: string, lineNumbers?: string[]}>> = new Map();
     private currentRequestId: string = '';
+    private activeRequest?: { controller: AbortController; done: Promise<unknown> };
+    private pendingComparison?: PendingComparison;
+    /** Plan shown in the sidebar, waiting to be run or to continue after a failed step */
+    private pendingPlan?: TaskPlan;
+    /** Tool steps of the request being streamed, shown in the sidebar timeline */
+    private agentRun?: AgentRun;
+    private activePulls = new Map<string, AbortController>();
     private _disposables: vscode.Disposable[] = [];
 
     constructor(
         private readonly _extensionContext: vscode.ExtensionContext,
         private readonly _outputChannel: vscode.OutputChannel
     ) {
-        this.ollamaClient = new OllamaClient(this._outputChannel);
+        this.endpointManager = EndpointManager.getInstance(this._outputChannel);
+        this._extensionContext.subscriptions.push(
+            this.endpointManager.onDidChangeHealth(() => this._postConnectionStatus())
+        );
+        this.contextManager = new ContextManager(this._outputChannel);
+        this.modelProfiles = ModelProfiles.getInstance(this._outputChannel);
+        this._extensionContext.subscriptions.push(
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('duvut-assistant.slashCommands')) {
+                    this._postSlashCommands();
+                }
+            })
+        );
+        this.promptTemplates = new PromptTemplateLibrary(this._outputChannel);
+        this.slashCommands = new SlashCommandRegistry(this.promptTemplates);
+        this._extensionContext.subscriptions.push(
+            this.promptTemplates,
+            this.promptTemplates.onDidChange(() => this._postSlashCommands())
+        );
+        this.projectRules = new ProjectRules(this._outputChannel);
+        this._extensionContext.subscriptions.push(this.projectRules);
+        this.compactor = new ConversationCompactor(this._outputChannel);
         this.toolsService = new ToolsService(this._outputChannel);
+        this.toolRegistry = new ToolRegistry(this.toolsService, this._outputChannel);
+        this.mentionResolver = new MentionResolver(this.toolsService, this._outputChannel);
         this.debugService = DebugService.getInstance(this._outputChannel);
+        
+        // Resume the conversation that was open when the window closed
+        this.sessionStore = new SessionStore(this._extensionContext.workspaceState);
+        const activeId = this.sessionStore.getActiveId();
+        this.session = (activeId && this.sessionStore.get(activeId)) || this.sessionStore.create();
+        
+        this.changePreview = new ChangePreview();
+        this.checkpoints = new CheckpointStore(this._extensionContext.workspaceState);
+        this._extensionContext.subscriptions.push(
+            this.changePreview,
+            this.changeSetPanel,
+            this.checkpoints,
+            this.checkpoints.onDidChange(() => this._postCheckpointList())
+        );
     }
 
     dispose() {
@@ -78,20 +192,86 @@ export class OllamaProvider implements vscode.WebviewViewProvider {
         // Use a small delay to ensure the webview is ready to receive messages
         setTimeout(() => {
             this._checkOllamaConnection();
+            this._postSlashCommands();
+            if (this.session.messages.length > 0) {
+                this._postSession();
+            } else {
+                this._postSessionList();
+            }
         }, 100);
     }
 
     private async _handleWebviewMessage(message: WebviewMessage) {
         switch (message.type) {
-            case 'sendMessage':
-                await this._handleChatMessage(message.content, message.model);
+            case 'sendMessage': {
+                const invocation = this.slashCommands.parse(message.content);
+                if (invocation) {
+                    await this._runSlashCommand(invocation, message.model, message.mentions);
+                } else {
+                    await this._handleChatMessage(message.content, message.model, undefined, message.mentions);
+                }
+                break;
+            }
+            case 'editMessage':
+                await this._handleChatMessage(message.content, message.model, message.id);
+                break;
+            case 'regenerate':
+                await this._regenerate(message.id, message.model || this.selectedModel);
+                break;
+            case 'compareMessage':
+                await this._compareModels(message.content, message.models, message.mentions);
+                break;
+            case 'keepCompareAnswer':
+                await this._keepComparisonAnswer(message.compareId, message.index);
+                break;
+            case 'planMessage':
+                await this._runRequest(signal => this._createPlan(message.content, message.model, signal, message.mentions));
+                break;
+            case 'runPlan':
+                await this._runRequest(signal => this._executePlan(message.planId, message.steps, message.model, signal));
+                break;
+            case 'discardPlan':
+                if (this.pendingPlan?.id === message.planId) {
+                    this.pendingPlan = undefined;
+                }
+                break;
+            case 'getMentionSuggestions': {
+                let items: MentionSuggestion[] = [];
+                try {
+                    items = await this.mentionResolver.suggest(message.kind, message.query || '');
+                } catch (error) {
+                    // The autocomplete waits for a reply, so it gets an empty list
+                    this.debugService.log('getMentionSuggestions', `Suggestions for @${message.kind} failed`, error);
+                }
+                this._view?.webview.postMessage({
+                    type: 'mentionSuggestions',
+                    kind: message.kind,
+                    query: message.query,
+                    items
+                });
+                break;
+            }
+            case 'switchBranch':
+                await this._switchBranch(message.id, message.offset);
+                break;
+            case 'stopGeneration':
+                await this._cancelActiveRequest();
+                break;
+            case 'agentControl':
+                await this._controlAgentRun(message.runId, message.action);
+                break;
+            case 'agentApproval':
+                if (this.agentRun && this.agentRun.id === message.runId) {
+                    this.agentRun.settle(message.stepId, !!message.approved);
+                }
                 break;
             case 'checkConnection':
                 this._outputChannel.appendLine(`[DEBUG] Received checkConnection message from webview`);
                 await this._checkOllamaConnection();
                 break;
             case 'clearChat':
-                this._clearChat();
+                await this._cancelActiveRequest();
+                await this._clearChat();
                 break;
             case 'setModel':
                 this.selectedModel = message.model;
@@ -102,6 +282,51 @@ export class OllamaProvider implements vscode.WebviewViewProvider {
             case 'getAvailableModels':
                 await this._sendAvailableModels(message.refresh);
                 break;
+            case 'getModelList':
+                await this._sendModelList();
+                break;
+            case 'getModelDetails':
+                await this._sendModelDetails(message.name, message.endpoint);
+                break;
+            case 'pullModel':
+                await this._pullModel(message.name, message.endpoint);
+                break;
+            case 'cancelPull':
+                this.activePulls.get(`${message.endpoint || ''}/${message.name}`)?.abort();
+                break;
+            case 'deleteModel':
+                await this._deleteModel(message.name, message.endpoint);
+                break;
+            case 'copyModel':
+                await this._copyModel(message.name, message.endpoint);
+                break;
+            case 'listSessions':
+                this._postSessionList();
+                break;
+            case 'listCheckpoints':
+                this._postCheckpointList();
+                break;
+            case 'restoreCheckpoint':
+                await this.restoreCheckpoint(message.id);
+                break;
+            case 'newSession':
+                await this.newSession();
+                break;
+            case 'openSession':
+                await this._openSession(message.id);
+                break;
+            case 'renameSession':
+                await this._renameSession(message.id);
+                break;
+            case 'deleteSession':
+                await this._deleteSession(message.id);
+                break;
+            case 'exportSession':
+                await this.exportSession(message.id);
+                break;
+            case 'showArchive':
+                await this._showArchive(message.id);
+                break;
             case 'applyCodeChanges':
                 if (message.recommendations) {
                     // Old format: array of recommendations
@@ -113,6 +338,9 @@ export class OllamaProvider implements vscode.WebviewViewProvider {
                     this._outputChannel.appendLine(`[DEBUG] Invalid applyCodeChanges message format: ${JSON.stringify(message)}`);
                 }
                 break;
+            case 'reviewChangeSet':
+                await this.reviewChangeSet(message.requestId);
+                break;
             case 'rejectCodeChanges':
                 if (this._view) {
                     this._view.webview.postMessage({
@@ -122,6 +350,10 @@ export class OllamaProvider implements vscode.WebviewViewProvider {
                 }
                 // Clean up rejected recommendations
                 if (message.requestId) {
+                    for (const recommendation of this.pendingRecommendations.get(message.requestId) || []) {
+                        this._recordChange(recommendation.filePath, 'rejected');
+                    }
+                    await this._saveSession();
                     this.pendingRecommendations.delete(message.requestId);
                     this._outputChannel.appendLine(`[DEBUG] Cleared rejected recommendations for request ${message.requestId}`);
                 }
@@ -132,7 +364,7 @@ export class OllamaProvider implements vscode.WebviewViewProvider {
 
     private async _sendAvailableModels(forceRefresh: boolean = false) {
         try {
-            const models = await this.ollamaClient.listModels();
+            const models = await this.endpointManager.listModels(forceRefresh);
             
             if (this._view) {
                 this._view.webview.postMessage({
@@ -152,36 +384,624 @@ export class OllamaProvider implements vscode.WebviewViewProvider {
         }
     }
 
-    private async _handleChatMessage(content: string, model: string) {
+    public showModelManager() {
+        this._view?.webview.postMessage({ type: 'showView', view: 'models' });
+    }
+
+    private async _sendModelList() {
+        if (!this._view) return;
+
+        const endpoints = this.endpointManager.getEndpoints().filter(e => e.config.enabled);
+        const models: ModelRow[] = [];
+        const errors: string[] = [];
+
+        await Promise.all(endpoints.map(async endpoint => {
+            const client = endpoint.client;
+            try {
+                const [installed, running] = await Promise.all([
+                    client.listModels(),
+                    // Older Ollama versions have no /api/ps - treat that as nothing loaded.
+                    // Other backends cannot report loaded models at all.
+                    client instanceof OllamaClient ? client.listRunningModels().catch(() => []) : Promise.resolve([])
+                ]);
+                const runningByName = new Map(running.map(m => [m.name, m]));
+
+                models.push(...installed.map((m): ModelRow => {
+                    const loaded = runningByName.get(m.name);
+                    return {
+                        name: m.name,
+                        endpoint: endpoint.config.name,
+                        // Pull/delete/copy/show are Ollama-only APIs
+                        manageable: client instanceof OllamaClient,
+                        size: m.size,
+                        family: m.details?.family,
+                        parameterSize: m.details?.parameter_size,
+                        quantization: m.details?.quantization_level,
+                        modifiedAt: m.modified_at,
+                        loaded: !!loaded,
+                        sizeVram: loaded?.size_vram,
+                        expiresAt: loaded?.expires_at
+                    };
+                }));
+            } catch (error) {
+                errors.push(`${endpoint.config.name}: ${error instanceof Error ? error.message : error}`);
+            }
+        }));
+
+        models.sort((a, b) => a.name.localeCompare(b.name) || a.endpoint.localeCompare(b.endpoint));
+
+        this._view?.webview.postMessage({
+            type: 'modelList',
+            models,
+            endpoints: endpoints.filter(e => e.client instanceof OllamaClient).map(e => e.config.name),
+            showEndpoint: endpoints.length > 1,
+            error: errors.length > 0 ? errors.join('; ') : undefined
+        });
+    }
+
+    /**
+     * Model management needs the Ollama-specific APIs, so only Ollama endpoints qualify
+     */
+    private _getEndpointClient(endpoint?: string): OllamaClient {
+        const client = (endpoint && this.endpointManager.getEndpoint(endpoint)?.client) || this.endpointManager.getClient('chat');
+        if (!(client instanceof OllamaClient)) {
+            throw new Error(`Model management is only available for Ollama endpoints (${endpoint || 'default endpoint'} is OpenAI-compatible)`);
+        }
+        return client;
+    }
+
+    private async _sendModelDetails(name: string, endpoint?: string) {
+        try {
+            const info = await this._getEndpointClient(endpoint).showModel(name);
+            const modelInfo = info.model_info || {};
+            const architecture = modelInfo['general.architecture'];
+            this._view?.webview.postMessage({
+                type: 'modelDetails',
+                name,
+                endpoint,
+                details: {
+                    family: info.details?.family,
+                    parameterSize: info.details?.parameter_size,
+                    quantization: info.details?.quantization_level,
+                    format: info.details?.format,
+                    parameterCount: modelInfo['general.parameter_count'],
+                    contextLength: architecture ? modelInfo[`${architecture}.context_length`] : undefined,
+                    capabilities: info.capabilities || [],
+                    parameters: info.parameters || ''
+                }
+            });
+        } catch (error) {
+            this._view?.webview.postMessage({
+                type: 'modelDetails',
+                name,
+                endpoint,
+                error: error instanceof Error ? error.message : String(error)
+            });
+        }
+    }
+
+    private async _pullModel(name: string, endpoint?: string) {
+        name = (name || '').trim();
+        const pullKey = `${endpoint || ''}/${name}`;
+        if (!name || this.activePulls.has(pullKey)) return;
+
+        const controller = new AbortController();
+        this.activePulls.set(pullKey, controller);
+
+        try {
+            for await (const progress of this._getEndpointClient(endpoint).pullModel(name, { signal: controller.signal })) {
+                this._view?.webview.postMessage({
+                    type: 'pullProgress',
+                    name,
+                    endpoint,
+                    status: progress.status,
+                    completed: progress.completed,
+                    total: progress.total
+                });
+            }
+            this._view?.webview.postMessage({ type: 'pullProgress', name, endpoint, status: 'success', done: true });
+            await this._refreshModels();
+        } catch (error) {
+            this._view?.webview.postMessage({
+                type: 'pullProgress',
+                name,
+                endpoint,
+                done: true,
+                error: error instanceof Error ? error.message : String(error)
+            });
+        } finally {
+            this.activePulls.delete(pullKey);
+        }
+    }
+
+    private async _deleteModel(name: string, endpoint?: string) {
+        const where = endpoint && this.endpointManager.getEndpoints().length > 1 ? ` from ${endpoint}` : '';
+        // Webviews cannot show blocking dialogs, so confirm from the extension side
+        const choice = await vscode.window.showWarningMessage(
+            `Delete model "${name}"${where}? This removes it from disk and it will need to be pulled again.`,
+            { modal: true },
+            'Delete'
+        );
+        if (choice !== 'Delete') return;
+
+        try {
+            await this._getEndpointClient(endpoint).deleteModel(name);
+            vscode.window.showInformationMessage(`Deleted model ${name}`);
+            await this._refreshModels();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to delete ${name}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    private async _copyModel(name: string, endpoint?: string) {
+        const destination = await vscode.window.showInputBox({
+            prompt: `Copy model "${name}" as`,
+            value: `${name.split(':')[0]}-copy`,
+            validateInput: value => value.trim() ? undefined : 'Model name cannot be empty'
+        });
+        if (!destination) return;
+
+        try {
+            await this._getEndpointClient(endpoint).copyModel(name, destination.trim());
+            vscode.window.showInformationMessage(`Copied ${name} to ${destination.trim()}`);
+            await this._refreshModels();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to copy ${name}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Refresh both the models view and the model picker after the inventory changed
+     */
+    private async _refreshModels() {
+        await this._sendModelList();
+        await this._checkOllamaConnection();
+    }
+
+    /**
+     * Send a user message and stream the reply. With `editOf` the message replaces
+     * an earlier user message on a new branch, keeping the old continuation.
+     */
+    private async _handleChatMessage(content: string, model: string, editOf?: string, mentions?: Mention[]) {
+        if (!this._view) return;
+        await this._runRequest(signal => this._streamChatResponse(model, signal, { content, editOf, mentions }));
+    }
+
+    /**
+     * Generate a new version of an assistant message, optionally with another model.
+     * The new answer becomes a sibling of the old one.
+     */
+    private async _regenerate(messageId: string, model: string) {
+        const original = this.conversation.get(messageId);
+        if (!this._view || !original || original.role !== 'assistant') return;
+
+        await this._runRequest(async signal => {
+            this.session.leafId = original.parentId;
+            this._postSession();
+            await this._streamChatResponse(model, signal);
+        });
+    }
+
+    /**
+     * Send the same prompt to several models at once and stream the answers side
+     * by side. Nothing is added after the user message until one answer is kept.
+     */
+    private async _compareModels(content: string, models: string[], mentions?: Mention[]) {
+        if (!this._view) return;
+        await this._runRequest(signal => this._streamComparison(content, [...new Set(models)], signal, mentions));
+    }
+
+    private async _streamComparison(content: string, models: string[], signal: AbortSignal, mentions?: Mention[]) {
+        if (!this._view) return;
+
+        try {
+            this.debugService.log('_streamComparison', 'Starting comparison', { models });
+            const resolved = await this._resolveMentions(content, mentions);
+            const userMessage = this.conversation.append({ role: 'user', content: content, mentions: resolved });
+            await this._saveSession();
+            this._view.webview.postMessage({ type: 'userMessage', ...this._toWebviewMessage(userMessage) });
+
+            const context = await this._getWorkspaceContext(!resolved);
+            const systemPrompts = models.map(model => this._getSystemPrompt(model));
+            this.lastSystemPrompt = { sentAt: Date.now(), prompts: models.map((model, index) => ({ model, prompt: systemPrompts[index] })) };
+            const input = {
+                workspaceContext: context ? `Workspace Context:\n${context}` : undefined,
+                history: this._getModelHistory()
+            };
+
+            const comparison: PendingComparison = {
+                id: `cmp_${Date.now()}`,
+                sessionId: this.session.id,
+                parentId: userMessage.id,
+                answers: models.map(model => ({ model, content: '' }))
+            };
+            this.pendingComparison = comparison;
+            this._view.webview.postMessage({ type: 'compareStart', compareId: comparison.id, models });
+
+            await Promise.all(models.map((_, index) =>
+                this._streamComparisonAnswer(comparison, index, { ...input, systemPrompt: systemPrompts[index] }, signal)));
+        } catch (error) {
+            if (!this._view) return;
+            this._view.webview.postMessage({
+                type: 'error',
+                message: error instanceof Error ? error.message : 'An unknown error occurred',
+                category: error instanceof OllamaError ? error.category : undefined
+            });
+        } finally {
+            this._view?.webview.postMessage({ type: 'finalizeMessage' });
+            await this._saveSession();
+        }
+    }
+
+    /**
+     * Stream one column of a comparison. Tools are not offered - the answers are
+     * only compared, so none of them should change the workspace.
+     */
+    private async _streamComparisonAnswer(
+        comparison: PendingComparison,
+        index: number,
+        input: { systemPrompt: string; workspaceContext?: string; history: ChatMessage[] },
+        signal: AbortSignal
+    ) {
+        const answer = comparison.answers[index];
+        let stats: ResponseStats | undefined;
+        let error: Error | undefined;
+
+        try {
+            const contextLength = await this.contextManager.getContextLength(this.endpointManager.getClient('chat', answer.model), answer.model);
+            const { messages } = this.contextManager.fit({ ...input, contextLength });
+            const stream = this.endpointManager.streamWithFailover('chat', answer.model, client => client.chatStream(messages, answer.model, {
+                ...this.modelProfiles.getRequestOptions(answer.model),
+                signal,
+                contextLength
+            }));
+            for await (const chunk of stream) {
+                if (signal.aborted) break;
+                if (chunk.stats) {
+                    stats = chunk.stats;
+                    MetricsService.getInstance().record(chunk.stats);
+                }
+                if (!chunk.content) continue;
+
+                answer.content += chunk.content;
+                this._view?.webview.postMessage({ type: 'compareUpdate', compareId: comparison.id, index, content: chunk.content });
+            }
+        } catch (e) {
+            error = e instanceof Error ? e : new Error(String(e));
+            this.debugService.log('_streamComparisonAnswer', `Comparison answer from ${answer.model} failed`, error);
+        }
+
+        answer.truncated = signal.aborted || undefined;
+        this._view?.webview.postMessage({
+            type: 'compareDone',
+            compareId: comparison.id,
+            index,
+            stats,
+            truncated: answer.truncated,
+            error: error?.message,
+            category: error instanceof OllamaError ? error.category : undefined
+        });
+    }
+
+    /**
+     * Add the chosen comparison answer to the conversation and drop the others
+     */
+    private async _keepComparisonAnswer(compareId: string, index: number) {
+        const comparison = this.pendingComparison;
+        if (!comparison || comparison.id !== compareId || comparison.sessionId !== this.session.id) return;
+
+        // Keeping an answer early stops the models that are still writing
+        await this._cancelActiveRequest();
+        const answer = comparison.answers[index];
+        if (!answer?.content) return;
+
+        this.pendingComparison = undefined;
+        this.session.leafId = comparison.parentId;
+        this.conversation.append({
+            role: 'assistant',
+            content: answer.content,
+            truncated: answer.truncated,
+            model: answer.model
+        });
+        await this._saveSession();
+        this._postSession();
+    }
+
+    /**
+     * Ask the model for a step-by-step plan instead of an answer. Tools are not
+     * offered, so nothing is written until the user runs the plan.
+     */
+    private async _createPlan(content: string, model: string, signal: AbortSignal, mentions?: Mention[]) {
+        if (!this._view) return;
+
+        try {
+            const resolved = await this._resolveMentions(content, mentions);
+            const userMessage = this.conversation.append({ role: 'user', content: content, mentions: resolved });
+            await this._saveSession();
+            this._view.webview.postMessage({ type: 'userMessage', ...this._toWebviewMessage(userMessage) });
+            this._view.webview.postMessage({ type: 'assistantMessage', streaming: true });
+            this._view.webview.postMessage({ type: 'updateMessage', content: 'Planning…' });
+
+            const context = await this._getWorkspaceContext(!resolved);
+            const systemPrompt = `${this._getSystemPrompt(model)}\n\n${PLAN_INSTRUCTIONS}`;
+            this.lastSystemPrompt = { sentAt: Date.now(), prompts: [{ model, prompt: systemPrompt }] };
+            const contextLength = await this.contextManager.getContextLength(this.endpointManager.getClient('chat', model), model);
+            const { messages } = this.contextManager.fit({
+                systemPrompt,
+                workspaceContext: context ? `Workspace Context:\n${context}` : undefined,
+                history: this._getModelHistory(),
+                contextLength
+            });
+            const answer = await this.endpointManager.withFailover('chat', model, client => client.chat(messages, model, {
+                ...this.modelProfiles.getRequestOptions(model),
+                signal,
+                contextLength,
+                timeoutMs: PLAN_TIMEOUT_MS
+            }));
+            if (signal.aborted || !this._view) return;
+
+            let plan: TaskPlan;
+            try {
+                plan = { id: `plan_${Date.now()}`, sessionId: this.session.id, request: content, ...parsePlan(answer) };
+            } catch (error) {
+                // Keep the answer so the user can see what the model said instead
+                const assistantMessage = this.conversation.append({ role: 'assistant', content: answer, model });
+                this._postFinalResponse(answer, false, undefined, assistantMessage);
+                throw error;
+            }
+
+            const assistantMessage = this.conversation.append({ role: 'assistant', content: planToMarkdown(plan), model });
+            this.pendingPlan = plan;
+            this._view.webview.postMessage({ type: 'planReady', plan, message: this._toWebviewMessage(assistantMessage) });
+        } catch (error) {
+            if (!this._view || signal.aborted) return;
+            this._view.webview.postMessage({
+                type: 'error',
+                message: error instanceof Error ? error.message : 'An unknown error occurred',
+                category: error instanceof OllamaError ? error.category : undefined
+            });
+        } finally {
+            this._view?.webview.postMessage({ type: 'finalizeMessage' });
+            await this._saveSession();
+        }
+    }
+
+    /**
+     * Run the steps of a plan, as edited in the sidebar, one after another through
+     * the agent loop. Unchecked steps are skipped and steps already done are not
+     * repeated, so a plan can be run again after fixing a failed step.
+     */
+    private async _executePlan(planId: string, steps: Array<Partial<PlanStep>>, model: string, signal: AbortSignal) {
+        const plan = this.pendingPlan;
+        if (!this._view) return;
+        if (!plan || plan.id !== planId || plan.sessionId !== this.session.id) {
+            this._view.webview.postMessage({ type: 'notice', text: 'This plan is no longer available. Ask for a new plan.' });
+            return;
+        }
+
+        plan.steps = (steps || [])
+            .filter(step => typeof step.title === 'string' && step.title.trim())
+            .map(step => ({
+                title: step.title!.trim(),
+                description: typeof step.description === 'string' ? step.description.trim() : '',
+                files: Array.isArray(step.files) ? step.files.filter(file => typeof file === 'string' && file) : [],
+                commands: Array.isArray(step.commands) ? step.commands.filter(command => typeof command === 'string' && command) : [],
+                enabled: step.enabled !== false,
+                status: step.status === 'done' ? 'done' : 'pending'
+            }));
+        const postStep = (index: number, detail?: string) => this._view?.webview.postMessage({
+            type: 'planStep', planId, index, status: plan.steps[index].status, detail
+        });
+        const endPlan = (status: 'done' | 'failed' | 'stopped') => this._view?.webview.postMessage({ type: 'planEnd', planId, status });
+
+        for (let index = 0; index < plan.steps.length; index++) {
+            const step = plan.steps[index];
+            if (step.status === 'done') continue;
+            if (!step.enabled) {
+                step.status = 'skipped';
+                postStep(index);
+                continue;
+            }
+
+            step.status = 'running';
+            postStep(index);
+            const answer = await this._streamChatResponse(model, signal, { content: stepPrompt(plan, index) });
+            if (signal.aborted) {
+                step.status = 'pending';
+                postStep(index);
+                endPlan('stopped');
+                return;
+            }
+
+            const failure = answer === undefined
+                ? 'The step stopped before the model finished it.'
+                : getStepFailure(answer);
+            step.status = failure ? 'failed' : 'done';
+            postStep(index, failure);
+            if (failure) {
+                this.debugService.log('_executePlan', `Plan stopped at step ${index + 1}`, { failure });
+                endPlan('failed');
+                return;
+            }
+        }
+
+        this.pendingPlan = undefined;
+        endPlan('done');
+    }
+
+    /**
+     * Only one response streams at a time - a new request stops the previous one
+     * so chunks from two answers never end up in the same bubble
+     */
+    private async _runRequest(run: (signal: AbortSignal) => Promise<unknown>) {
+        await this._cancelActiveRequest();
+        this.pendingComparison = undefined;
+
+        const controller = new AbortController();
+        const done = run(controller.signal);
+        this.activeRequest = { controller, done };
+
+        try {
+            await done;
+        } finally {
+            if (this.activeRequest?.controller === controller) {
+                this.activeRequest = undefined;
+            }
+        }
+    }
+
+    private async _cancelActiveRequest() {
+        const active = this.activeRequest;
+        if (!active) return;
+
+        this.debugService.log('_cancelActiveRequest', `Cancelling request: ${this.currentRequestId}`);
+        active.controller.abort();
+        await active.done;
+    }
+
+    /**
+     * Format a completed (or stopped) assistant response, attach Apply prompts for
+     * detected code recommendations and replace the streaming bubble with it.
+     */
+    private _postFinalResponse(response: string, truncated: boolean, stats?: ResponseStats, message?: SessionMessage) {
+        if (!this._view) return;
+
+        // Process the complete response to format code blocks and detect recommendations
+        this._outputChannel.appendLine(`[DEBUG] Processing complete response for code blocks`);
+        const processedResponse = this._processCodeBlocks(response);
+        
+        // Detect code recommendations from the complete response
+        const recommendations = this._detectCodeRecommendations(response);
+        
+        // Prepare the final response with or without prompts
+        let finalResponse = processedResponse;
+        
+        // If we found recommendations, inject inline prompts into the processed response
+        if (recommendations.length > 0) {
+            this._outputChannel.appendLine(`[DEBUG] Found ${recommendations.length} recommendations, injecting inline prompts`);
+            
+            // Store recommendations for this request (tool rounds may add to an existing set)
+            const existing = this.pendingRecommendations.get(this.currentRequestId) || [];
+            this.pendingRecommendations.set(this.currentRequestId, [...existing, ...recommendations]);
+            
+            // Inject inline prompts into the processed response
+            for (const recommendation of recommendations) {
+                const promptHtml = this._createInlinePromptHtml(recommendation, this.currentRequestId);
+                this._outputChannel.appendLine(`[DEBUG] Created prompt HTML for ${recommendation.filePath}`);
+                
+                // Find the code block in the processed response and add the prompt after it
+                // Use a simpler approach - find the last </code></pre> and add the prompt after it
+                const lastCodeBlockIndex = finalResponse.lastIndexOf('</code></pre>');
+                if (lastCodeBlockIndex !== -1) {
+                    const insertIndex = lastCodeBlockIndex + '</code></pre>'.length;
+                    finalResponse = finalResponse.slice(0, insertIndex) + promptHtml + finalResponse.slice(insertIndex);
+                    this._outputChannel.appendLine(`[DEBUG] Injected prompt after code block at index ${insertIndex}`);
+                } else {
+                    this._outputChannel.appendLine(`[DEBUG] No code block found to inject prompt into`);
+                }
+            }
+            
+            // Changes to several files can also be reviewed together
+            const pending = this.pendingRecommendations.get(this.currentRequestId) || [];
+            if (pending.length > 1) {
+                finalResponse += this._createChangeSetPromptHtml(pending.length, this.currentRequestId);
+            }
+        } else {
+            this._outputChannel.appendLine(`[DEBUG] No code recommendations found`);
+        }
+        
+        // Send the final response (only once) - this prevents duplicates
+        this._view.webview.postMessage({
+            type: 'replaceStreamingMessage',
+            content: finalResponse,
+            truncated: truncated,
+            stats: stats,
+            message: message && this._toWebviewMessage(message)
+        });
+    }
+
+    private _postToolResult(result: ToolResult) {
+        if (!this._view) return;
+
+        this._view.webview.postMessage({
+            type: 'toolResult',
+            name: result.name,
+            args: result.args,
+            success: result.success,
+            output: result.output
+        });
+    }
+
+    private _isToolsUnsupportedError(error: unknown): boolean {
+        // Ollama: "<model> does not support tools"; llama.cpp: "tools param requires --jinja flag"
+        return error instanceof Error && /does not support tools|tools param requires|tools? (are|is) not supported/i.test(error.message);
+    }
+
+    private get conversation(): ConversationTree {
+        return new ConversationTree(this.session);
+    }
+
+    /**
+     * Show the previous (-1) or next (+1) alternative of a message
+     */
+    private async _switchBranch(messageId: string, offset: number) {
+        const sibling = this.conversation.getSibling(messageId, offset);
+        if (!sibling) return;
+
+        await this._cancelActiveRequest();
+        this.conversation.switchTo(sibling.id);
+        this.pendingRecommendations.clear();
+        await this._saveSession();
+        this._postSession();
+    }
+
+    /**
+     * Stream a reply to the conversation. Without a user turn the reply continues
+     * from the current leaf, which is how regeneration works. Resolves to the
+     * final answer, or undefined when it was stopped or failed.
+     */
+    private async _streamChatResponse(
+        model: string,
+        signal: AbortSignal,
+        userTurn?: { content: string; editOf?: string; mentions?: Mention[]; temperature?: number }
+    ): Promise<string | undefined> {
         if (!this._view) return;
 
         try {
             // Generate unique request ID for this conversation
             this.currentRequestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+            const content = userTurn?.content || '';
             this.debugService.log('_handleChatMessage', `Starting new request: ${this.currentRequestId}`, {
                 content: content.substring(0, 200) + (content.length > 200 ? '...' : ''),
-                model: model
+                model: model,
+                regenerate: !userTurn
             });
             
-            // Add user message to history
-            this.chatHistory.push({ role: 'user', content: content });
+            // Context picked with @-mentions is read now and stored with the message;
+            // an edited message keeps the mentions of the original
+            const mentions = userTurn && await this._resolveMentions(content, [
+                ...(userTurn.editOf && this.conversation.get(userTurn.editOf)?.mentions || []),
+                ...(userTurn.mentions || [])
+            ]);
             
-            // Get workspace context
-            const context = await this._getWorkspaceContext();
+            // Add user message to history - an edit becomes a sibling of the original message
+            const userMessage = userTurn && (userTurn.editOf
+                ? this.conversation.branchFrom(userTurn.editOf, { role: 'user', content: content, mentions })
+                : this.conversation.append({ role: 'user', content: content, mentions }));
+            await this._saveSession();
+            
+            // Get workspace context - explicit mentions replace the guess based on open editors
+            const context = await this._getWorkspaceContext(!mentions);
             this.debugService.log('_handleChatMessage', 'Workspace context retrieved', {
                 contextLength: context.length,
                 contextPreview: context.substring(0, 200) + (context.length > 200 ? '...' : '')
             });
             
-            // Prepare messages for Ollama
-            const messages: ChatMessage[] = [
-                { role: 'system' as const, content: this._getSystemPrompt() },
-                ...this.chatHistory
-            ];
-            
-            if (context) {
-                const contextMessage = `Workspace Context:\n${context}\n\nUser Request:\n${content}`;
-                messages.splice(1, 0, { role: 'user' as const, content: contextMessage });
+            // Prepare messages for Ollama - they are fitted into the context window each round
+            const systemPrompt = this._getSystemPrompt(model);
+            this.lastSystemPrompt = { sentAt: Date.now(), prompts: [{ model, prompt: systemPrompt }] };
+            const contextMessage = context ? `Workspace Context:\n${context}` : undefined;
+            if (contextMessage) {
                 this.debugService.log('_handleChatMessage', 'Added workspace context to messages', {
                     contextMessageLength: contextMessage.length,
                     contextContainsFileContent: context.includes('File content:'),
@@ -190,12 +1010,21 @@ export class OllamaProvider implements vscode.WebviewViewProvider {
             } else {
                 this.debugService.log('_handleChatMessage', 'No workspace context available');
             }
+            const contextLength = await this.contextManager.getContextLength(this.endpointManager.getClient('chat', model), model);
             
-            // Send user message to webview
-            this._view.webview.postMessage({
-                type: 'userMessage',
-                content: content
-            });
+            // Send user message to webview - after an edit the whole branch is redrawn
+            if (userTurn?.editOf) {
+                this._postSession();
+            } else if (userMessage) {
+                this._view.webview.postMessage({
+                    type: 'userMessage',
+                    ...this._toWebviewMessage(userMessage)
+                });
+            }
+            
+            // Summarise older messages before the conversation outgrows the context window
+            await this._autoCompact(model, signal, { systemPrompt, workspaceContext: contextMessage, contextLength });
+            if (!this._view) return;
             
             // Start streaming response
             this._view.webview.postMessage({
@@ -203,99 +1032,262 @@ export class OllamaProvider implements vscode.WebviewViewProvider {
                 streaming: true
             });
             
-            let fullResponse = '';
-            let inToolCall = false;
-            let currentToolCall = '';
-            let toolCallType = '';
+            const tools = this.toolRegistry.getDefinitions();
+            const requestOptions = this.modelProfiles.getRequestOptions(model);
+            let useNativeTools = this.modelProfiles.resolve(model).toolCallStyle !== 'xml' && !this.modelsWithoutToolSupport.has(model);
+            const maxSteps = vscode.workspace.getConfiguration('duvut-assistant.agent').get('maxSteps', 10);
+            let steps = 0;
+            let reportedTrim = '';
             
-            for await (const chunk of this.ollamaClient.chatStream(messages, model)) {
-                fullResponse += chunk;
-                
-                // Check for tool call start
-                if (chunk.includes('<read_file>') || chunk.includes('<write_file>') || chunk.includes('<open_file>')) {
-                    inToolCall = true;
-                    if (chunk.includes('<read_file>')) toolCallType = 'read_file';
-                    else if (chunk.includes('<write_file>')) toolCallType = 'write_file';
-                    else if (chunk.includes('<open_file>')) toolCallType = 'open_file';
+            while (true) {
+                const budget = this.contextManager.fit({
+                    systemPrompt,
+                    workspaceContext: contextMessage,
+                    history: this._getModelHistory(useNativeTools),
+                    contextLength
+                });
+                const trim = `${budget.droppedMessages}/${budget.workspaceContextTruncated}`;
+                if ((budget.droppedMessages > 0 || budget.workspaceContextTruncated) && trim !== reportedTrim) {
+                    reportedTrim = trim;
+                    this._view.webview.postMessage({
+                        type: 'contextTrimmed',
+                        droppedMessages: budget.droppedMessages,
+                        workspaceContextTruncated: budget.workspaceContextTruncated,
+                        estimatedTokens: budget.estimatedTokens,
+                        contextLength: budget.contextLength
+                    });
                 }
-
-                if (inToolCall) {
-                    currentToolCall += chunk;
-                    
-                    // Check if tool call is complete
-                    if (currentToolCall.includes('</read_file>') || 
-                        currentToolCall.includes('</write_file>') || 
-                        currentToolCall.includes('</open_file>')) {
+                const messages = budget.messages;
+                
+                let roundResponse = '';
+                let roundStats: ResponseStats | undefined;
+                const nativeToolCalls: ToolCall[] = [];
+                const xmlToolCalls: ToolCall[] = [];
+                const xmlParser = new XmlToolCallParser(this.toolRegistry.getXmlToolNames());
+                
+                try {
+                    const stream = this.endpointManager.streamWithFailover('chat', model, client => client.chatStream(messages, model, {
+                        ...requestOptions,
+                        signal,
+                        tools: useNativeTools ? tools : undefined,
+                        contextLength,
+                        temperature: userTurn?.temperature ?? requestOptions.temperature
+                    }));
+                    for await (const chunk of stream) {
+                        if (signal.aborted) break;
+                        
+                        if (chunk.toolCalls) {
+                            nativeToolCalls.push(...chunk.toolCalls);
+                        }
+                        if (chunk.stats) {
+                            roundStats = chunk.stats;
+                            MetricsService.getInstance().record(chunk.stats);
+                        }
+                        if (!chunk.content) continue;
                         
-                        // Process the complete tool call
-                        await this._processToolCall(currentToolCall, toolCallType);
+                        roundResponse += chunk.content;
                         
-                        // Reset for next tool call
-                        currentToolCall = '';
-                        inToolCall = false;
-                        toolCallType = '';
+                        // XML fallback: tags are recognised even when split across chunks
+                        const parsed = xmlParser.push(chunk.content);
+                        for (const tag of parsed.tags) {
+                            const call = this._toolCallFromXml(tag);
+                            if (call) xmlToolCalls.push(call);
+                        }
+                        if (parsed.text && this._view) {
+                            this._view.webview.postMessage({
+                                type: 'updateMessage',
+                                content: parsed.text
+                            });
+                        }
                     }
-                } else {
-                    // Simple streaming - just send the content as-is
+                } catch (error) {
+                    // Models without tool support reject the request outright - retry the plain way
+                    if (useNativeTools && !roundResponse && this._isToolsUnsupportedError(error)) {
+                        this.debugService.log('_streamChatResponse', `Model ${model} does not support native tools, falling back to XML tool tags`);
+                        this.modelsWithoutToolSupport.add(model);
+                        useNativeTools = false;
+                        continue;
+                    }
+                    throw error;
+                }
+                
+                const remainingText = xmlParser.flush();
+                if (remainingText && this._view && !signal.aborted) {
                     this._view.webview.postMessage({
                         type: 'updateMessage',
-                        content: chunk
+                        content: remainingText
                     });
                 }
-            }
-
-            // Add complete assistant response to history
-            this.chatHistory.push({ role: 'assistant', content: fullResponse });
-
-            // Process the complete response to format code blocks and detect recommendations
-            this._outputChannel.appendLine(`[DEBUG] Processing complete response for code blocks`);
-            const processedResponse = this._processCodeBlocks(fullResponse);
-            
-            // Detect code recommendations from the complete response
-            const recommendations = this._detectCodeRecommendations(fullResponse);
-            
-            // Prepare the final response with or without prompts
-            let finalResponse = processedResponse;
-            
-            // If we found recommendations, inject inline prompts into the processed response
-            if (recommendations.length > 0) {
-                this._outputChannel.appendLine(`[DEBUG] Found ${recommendations.length} recommendations, injecting inline prompts`);
                 
-                // Store recommendations for this request
-                this.pendingRecommendations.set(this.currentRequestId, recommendations);
+                const truncated = signal.aborted;
+                if (truncated) {
+                    this.debugService.log('_streamChatResponse', `Request stopped: ${this.currentRequestId}`, {
+                        partialLength: roundResponse.length
+                    });
+                }
+                
+                // Add the assistant response to history - a stopped answer is kept but flagged.
+                // Tool calls requested with XML tags stay in the text and run the same way.
+                const toolCalls = nativeToolCalls.length > 0 ? nativeToolCalls : xmlToolCalls;
+                const runTools = toolCalls.length > 0 && !truncated;
+                let assistantMessage: SessionMessage | undefined;
+                if (roundResponse || runTools || !truncated) {
+                    assistantMessage = this.conversation.append({
+                        role: 'assistant',
+                        content: roundResponse,
+                        tool_calls: runTools && nativeToolCalls.length > 0 ? nativeToolCalls : undefined,
+                        truncated: truncated || undefined,
+                        model: model
+                    });
+                }
+                
+                if (!this._view) return;
+                
+                this._postFinalResponse(roundResponse, truncated, roundStats, assistantMessage);
                 
-                // Inject inline prompts into the processed response
-                for (const recommendation of recommendations) {
-                    const promptHtml = this._createInlinePromptHtml(recommendation, this.currentRequestId);
-                    this._outputChannel.appendLine(`[DEBUG] Created prompt HTML for ${recommendation.filePath}`);
+                if (!runTools) {
+                    this._endAgentRun(truncated ? 'aborted' : 'finished');
+                    return truncated ? undefined : roundResponse;
+                }
+                
+                // Run the tool calls one step at a time and give the results back to the model
+                const run = this.agentRun && !this.agentRun.ended ? this.agentRun : this._startAgentRun(signal, maxSteps);
+                let budgetReached = false;
+                for (const call of toolCalls) {
+                    await run.waitWhilePaused();
                     
-                    // Find the code block in the processed response and add the prompt after it
-                    // Use a simpler approach - find the last </code></pre> and add the prompt after it
-                    const lastCodeBlockIndex = finalResponse.lastIndexOf('</code></pre>');
-                    if (lastCodeBlockIndex !== -1) {
-                        const insertIndex = lastCodeBlockIndex + '</code></pre>'.length;
-                        finalResponse = finalResponse.slice(0, insertIndex) + promptHtml + finalResponse.slice(insertIndex);
-                        this._outputChannel.appendLine(`[DEBUG] Injected prompt after code block at index ${insertIndex}`);
+                    // Every native tool call needs a result, or the next request's history is invalid
+                    let result: ToolResult;
+                    if (signal.aborted) {
+                        result = { name: call.function.name, args: {}, success: false, output: 'Not run: stopped by the user.' };
+                    } else if (steps >= maxSteps) {
+                        budgetReached = true;
+                        result = { name: call.function.name, args: {}, success: false, output: 'Not run: the step budget of this request is used up.' };
                     } else {
-                        this._outputChannel.appendLine(`[DEBUG] No code block found to inject prompt into`);
+                        result = await this._runAgentStep(run, call, ++steps);
                     }
+                    this.conversation.append({ role: 'tool', content: result.output, tool_name: result.name });
                 }
-            } else {
-                this._outputChannel.appendLine(`[DEBUG] No code recommendations found`);
+                
+                if (signal.aborted || !this._view) {
+                    this._endAgentRun('aborted');
+                    break;
+                }
+                if (budgetReached) {
+                    this.debugService.log('_streamChatResponse', `Step budget (${maxSteps}) reached, not executing further tool calls`);
+                    this._endAgentRun('budget');
+                    this._view.webview.postMessage({
+                        type: 'notice',
+                        text: `Stopped after ${maxSteps} tool steps (duvut-assistant.agent.maxSteps). Send a message to let the assistant continue.`
+                    });
+                    break;
+                }
+                
+                // Let the model continue with the tool results in a fresh bubble
+                this._view.webview.postMessage({
+                    type: 'assistantMessage',
+                    streaming: true
+                });
             }
             
-            // Send the final response (only once) - this prevents duplicates
-            this._view.webview.postMessage({
-                type: 'replaceStreamingMessage',
-                content: finalResponse
-            });
-            
         } catch (error) {
+            this._endAgentRun('failed');
+            if (!this._view) return;
+            this._view.webview.postMessage({ type: 'finalizeMessage' });
             this._view.webview.postMessage({
                 type: 'error',
-                message: error instanceof Error ? error.message : 'An unknown error occurred'
+                message: error instanceof Error ? error.message : 'An unknown error occurred',
+                category: error instanceof OllamaError ? error.category : undefined
             });
+        } finally {
+            this._endAgentRun('aborted');
+            await this._saveSession();
+        }
+    }
+
+    private _startAgentRun(signal: AbortSignal, maxSteps: number): AgentRun {
+        const run = new AgentRun(`run_${Date.now()}`, signal);
+        this.agentRun = run;
+        this._view?.webview.postMessage({ type: 'agentStart', runId: run.id, maxSteps });
+        return run;
+    }
+
+    /**
+     * Mark the current run as over; later calls for the same run do nothing
+     */
+    private _endAgentRun(reason: 'finished' | 'budget' | 'aborted' | 'failed') {
+        const run = this.agentRun;
+        if (!run || run.ended) return;
+        run.ended = true;
+        this._view?.webview.postMessage({ type: 'agentEnd', runId: run.id, reason });
+    }
+
+    private async _controlAgentRun(runId: string, action: 'pause' | 'resume' | 'abort') {
+        const run = this.agentRun;
+        if (!run || run.id !== runId || run.ended) return;
+        switch (action) {
+            case 'pause':
+                run.pause();
+                break;
+            case 'resume':
+                run.resume();
+                break;
+            case 'abort':
+                await this._cancelActiveRequest();
+                return;
+        }
+        this._view?.webview.postMessage({ type: 'agentState', runId, paused: run.isPaused });
+    }
+
+    /**
+     * Execute one tool call of the agent loop, asking for approval first when
+     * `duvut-assistant.agent.approval` requires it
+     */
+    private async _runAgentStep(run: AgentRun, call: ToolCall, index: number): Promise<ToolResult> {
+        const name = call.function.name;
+        const args = this.toolRegistry.parseArguments(call.function.arguments);
+        const step: AgentStep = { id: `${run.id}_${index}`, index, tool: name, args: this._describeToolArgs(args), status: 'running' };
+        const postStep = () => this._view?.webview.postMessage({ type: 'agentStep', runId: run.id, step });
+
+        const approval = vscode.workspace.getConfiguration('duvut-assistant.agent').get<string>('approval', 'writes');
+        if (approval === 'all' || (approval === 'writes' && this.toolRegistry.changesWorkspace(name))) {
+            step.status = 'pending';
+            postStep();
+            if (!await run.requestApproval(step.id)) {
+                step.status = 'rejected';
+                postStep();
+                if (this.toolRegistry.changesWorkspace(name) && typeof args.path === 'string') {
+                    this._recordChange(args.path, 'rejected');
+                }
+                return { name, args, success: false, output: 'The user rejected this tool call. Do not retry it unless asked to.' };
+            }
+            step.status = 'running';
+        }
+        postStep();
+
+        if (this.toolRegistry.changesWorkspace(name) && typeof args.path === 'string') {
+            await this._checkpoint(this.currentRequestId, args.path);
+        }
+        const result = await this.toolRegistry.execute(call, run.signal);
+        step.status = result.success ? 'done' : 'failed';
+        step.output = result.output.length > 300 ? result.output.substring(0, 300) + '…' : result.output;
+        postStep();
+        this._postToolResult(result);
+        if (this.toolRegistry.changesWorkspace(name) && typeof result.args.path === 'string') {
+            this._recordChange(result.args.path, result.success ? 'applied' : 'failed', result.success ? undefined : result.output);
         }
+        return result;
+    }
+
+    /**
+     * Tool arguments for display: long values such as file contents are shortened
+     */
+    private _describeToolArgs(args: Record<string, any>): Record<string, any> {
+        const described: Record<string, any> = {};
+        for (const [key, value] of Object.entries(args)) {
+            described[key] = typeof value === 'string' && value.length > 80 ? `${value.substring(0, 80)}… (${value.length} characters)` : value;
+        }
+        return described;
     }
 
     private async _checkOllamaConnection() {
@@ -313,32 +1305,8 @@ export class OllamaProvider implements vscode.WebviewViewProvider {
         await new Promise(resolve => setTimeout(resolve, 200));
         
         try {
-            const isConnected = await this.ollamaClient.checkConnection();
-            this.debugService.log('_checkOllamaConnection', 'Ollama connection check result', { isConnected });
-            
-            const models = isConnected ? await this.ollamaClient.listModels() : [];
-            this.debugService.log('_checkOllamaConnection', 'Found models', { 
-                modelCount: models.length,
-                models: models.map(m => m.name)
-            });
-            
-            const msg = {
-                type: 'connectionStatus',
-                connected: isConnected,
-                models: models.map(m => m.name)
-            };
-            
-            this.debugService.log('_checkOllamaConnection', 'Sending connection status to webview', msg);
-            
-            // Double-check webview is still available before sending
-            if (!this._view || !this._view.webview) {
-                this.debugService.log('_checkOllamaConnection', 'Webview no longer available, aborting message send');
-                return;
-            }
-            
-            this._view.webview.postMessage(msg);
-            this.debugService.log('_checkOllamaConnection', 'Connection status sent to webview successfully');
-            
+            await this.endpointManager.checkHealth();
+            this._postConnectionStatus();
         } catch (error) {
             this.debugService.log('_checkOllamaConnection', 'Error in connection check', error);
             const msg = {
@@ -353,8 +1321,57 @@ export class OllamaProvider implements vscode.WebviewViewProvider {
         }
     }
 
-    private _clearChat() {
-        this.chatHistory = [];
+    /**
+     * Send the endpoint health and the merged model inventory to the webview
+     */
+    private _postConnectionStatus() {
+        // Double-check webview is still available before sending
+        if (!this._view || !this._view.webview) {
+            this.debugService.log('_postConnectionStatus', 'Webview no longer available, aborting message send');
+            return;
+        }
+
+        const endpoints = this.endpointManager.getEndpoints().filter(e => e.config.enabled);
+        const isConnected = endpoints.some(e => e.healthy);
+        
+        // Merge the inventories - a model served by several endpoints appears once
+        const modelEndpoints: { [model: string]: string[] } = {};
+        for (const endpoint of endpoints.filter(e => e.healthy)) {
+            for (const model of endpoint.models) {
+                (modelEndpoints[model.name] = modelEndpoints[model.name] || []).push(endpoint.config.name);
+            }
+        }
+        const models = Object.keys(modelEndpoints).sort();
+        this.debugService.log('_postConnectionStatus', 'Found models', { 
+            modelCount: models.length,
+            models
+        });
+        
+        const msg = {
+            type: 'connectionStatus',
+            connected: isConnected,
+            models,
+            modelEndpoints: endpoints.length > 1 ? modelEndpoints : undefined,
+            endpoints: endpoints.map(e => ({
+                name: e.config.name,
+                url: e.config.url,
+                healthy: e.healthy,
+                error: e.lastError
+            }))
+        };
+        
+        this.debugService.log('_postConnectionStatus', 'Sending connection status to webview', msg);
+        this._view.webview.postMessage(msg);
+    }
+
+    /**
+     * Clear the chat by starting a new session, so the cleared conversation
+     * stays in the History tab instead of being overwritten
+     */
+    private async _clearChat() {
+        if (this.session.messages.length > 0) {
+            await this.newSession();
+        }
         this.pendingRecommendations.clear(); // Clear pending recommendations on chat clear
         this._cleanupOldRecommendations(); // Clean up any old recommendations
         if (this._view) {
@@ -364,6 +1381,283 @@ export class OllamaProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    /**
+     * Start a new conversation; the current one stays in the session list
+     */
+    public async newSession() {
+        await this._cancelActiveRequest();
+        await this._saveSession();
+        this.session = this.sessionStore.create();
+        await this.sessionStore.setActiveId(this.session.id);
+        this.pendingRecommendations.clear();
+        this._postSession();
+    }
+
+    private async _openSession(id: string) {
+        const session = this.sessionStore.get(id);
+        if (!session) {
+            vscode.window.showErrorMessage('That chat session no longer exists.');
+            this._postSessionList();
+            return;
+        }
+        await this._cancelActiveRequest();
+        await this._saveSession();
+        this.session = session;
+        await this.sessionStore.setActiveId(session.id);
+        this.pendingRecommendations.clear();
+        this._postSession();
+    }
+
+    private async _renameSession(id: string) {
+        const session = id === this.session.id ? this.session : this.sessionStore.get(id);
+        if (!session) return;
+
+        const title = await vscode.window.showInputBox({
+            prompt: 'Rename chat session',
+            value: session.title,
+            validateInput: value => value.trim() ? undefined : 'Enter a name'
+        });
+        if (!title) return;
+
+        session.title = title.trim();
+        if (session === this.session) {
+            await this._saveSession();
+        } else {
+            await this.sessionStore.rename(id, session.title);
+            this._postSessionList();
+        }
+    }
+
+    private async _deleteSession(id: string) {
+        const session = this.sessionStore.get(id);
+        const confirm = await vscode.window.showWarningMessage(
+            `Delete chat session "${session?.title || DEFAULT_SESSION_TITLE}"? This cannot be undone.`,
+            { modal: true },
+            'Delete'
+        );
+        if (confirm !== 'Delete') return;
+
+        if (id === this.session.id) {
+            // A stopped answer saves its session when it finishes, which would bring the deleted one back
+            await this._cancelActiveRequest();
+            await this.sessionStore.delete(id);
+            this.session = this.sessionStore.create();
+            this.pendingRecommendations.clear();
+            this._postSession();
+        } else {
+            await this.sessionStore.delete(id);
+            this._postSessionList();
+        }
+    }
+
+    /**
+     * Save a session (the current one by default) as Markdown, HTML or JSON
+     */
+    public async exportSession(id?: string) {
+        const session = !id || id === this.session.id ? this.session : this.sessionStore.get(id);
+        if (!session || session.messages.length === 0) {
+            vscode.window.showInformationMessage('There is nothing to export in this chat yet.');
+            return;
+        }
+
+        const formats: Array<vscode.QuickPickItem & { format: ExportFormat; extension: string }> = [
+            { label: 'Markdown', description: 'Readable transcript for docs and tickets', format: 'markdown', extension: 'md' },
+            { label: 'HTML', description: 'Self-contained report', format: 'html', extension: 'html' },
+            { label: 'JSON', description: 'Can be imported again with Import Chat Session', format: 'json', extension: 'json' }
+        ];
+        const choice = await vscode.window.showQuickPick(formats, { placeHolder: 'Export format' });
+        if (!choice) return;
+
+        const fileName = `${session.title.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-').toLowerCase() || 'chat'}.${choice.extension}`;
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : undefined,
+            filters: { [choice.label]: [choice.extension] }
+        });
+        if (!target) return;
+
+        try {
+            const content = this.sessionExporter.export(session, choice.format);
+            await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+            vscode.window.showInformationMessage(`Exported "${session.title}" to ${vscode.workspace.asRelativePath(target)}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to export chat: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Add a session from a JSON export to the session list and open it
+     */
+    public async importSession() {
+        const [source] = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'Duvut session': ['json'] },
+            openLabel: 'Import'
+        }) || [];
+        if (!source) return;
+
+        try {
+            const text = Buffer.from(await vscode.workspace.fs.readFile(source)).toString('utf8');
+            const session = this.sessionExporter.import(text);
+            await this.sessionStore.save(session);
+            await this._openSession(session.id);
+            vscode.window.showInformationMessage(`Imported "${session.title}"`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to import chat: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Summarise the older part of the current conversation to free up context
+     */
+    public async compactSession() {
+        await this._runRequest(signal => Promise.resolve(vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Summarising earlier messages...'
+        }, async () => {
+            try {
+                if (!await this._compactSession(this.selectedModel, signal)) {
+                    vscode.window.showInformationMessage('This chat is too short to compact.');
+                }
+            } catch (error) {
+                if (!signal.aborted) {
+                    vscode.window.showErrorMessage(`Failed to compact chat: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+        })));
+    }
+
+    /**
+     * Compact automatically once the conversation fills most of the context window
+     */
+    private async _autoCompact(
+        model: string,
+        signal: AbortSignal,
+        input: { systemPrompt: string; workspaceContext?: string; contextLength: number }
+    ) {
+        const config = vscode.workspace.getConfiguration('duvut-assistant.context');
+        if (!config.get('autoCompact', true)) return;
+
+        const budget = this.contextManager.fit({ ...input, history: this._getModelHistory() });
+        if (budget.droppedMessages === 0 && budget.estimatedTokens < input.contextLength * config.get('compactThreshold', 0.7)) {
+            return;
+        }
+
+        this._view?.webview.postMessage({ type: 'notice', text: 'Summarising earlier messages to free up context...' });
+        try {
+            await this._compactSession(model, signal);
+        } catch (error) {
+            if (signal.aborted) return;
+            this.debugService.log('_autoCompact', 'Compaction failed, continuing with the full history', error);
+            this._view?.webview.postMessage({
+                type: 'notice',
+                text: `Could not summarise earlier messages: ${error instanceof Error ? error.message : error}`
+            });
+        }
+    }
+
+    private async _compactSession(model: string, signal: AbortSignal): Promise<boolean> {
+        const client = this.endpointManager.getClient('chat', model);
+        const contextLength = await this.contextManager.getContextLength(client, model);
+        const archive = await this.compactor.compact(this.session, client, model, { contextLength, signal });
+        if (!archive) return false;
+
+        await this._saveSession();
+        this._postSession();
+        return true;
+    }
+
+    /**
+     * Open the messages replaced by a summary as a read-only Markdown transcript
+     */
+    private async _showArchive(id: string) {
+        const archive = this.session.archives?.find(a => a.id === id);
+        if (!archive) {
+            vscode.window.showErrorMessage('The archived messages are no longer available.');
+            return;
+        }
+
+        const content = this.sessionExporter.export({
+            ...this.session,
+            title: `${this.session.title} - archived messages`,
+            messages: archive.messages,
+            leafId: archive.leafId,
+            changes: undefined,
+            archives: undefined
+        }, 'markdown');
+        const document = await vscode.workspace.openTextDocument({ language: 'markdown', content });
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+
+    private async _saveSession() {
+        if (this.session.title === DEFAULT_SESSION_TITLE) {
+            const firstRequest = this.session.messages.find(m => m.role === 'user' && !m.archiveId);
+            if (firstRequest) {
+                const title = firstRequest.content.replace(/\s+/g, ' ').trim();
+                this.session.title = title.length > 50 ? title.substring(0, 47) + '...' : title;
+            }
+        }
+        try {
+            await this.sessionStore.save(this.session);
+            if (this.session.messages.length > 0) {
+                await this.sessionStore.setActiveId(this.session.id);
+            }
+        } catch (error) {
+            this._outputChannel.appendLine(`[Sessions] Failed to save session: ${error}`);
+        }
+        this._postSessionList();
+    }
+
+    /**
+     * Replace the chat view with the messages of the current session
+     */
+    private _postSession() {
+        if (!this._view) return;
+
+        const messages = this.conversation.getActivePath()
+            .filter(m => m.role !== 'system')
+            .map(m => ({
+                ...this._toWebviewMessage(m),
+                // Assistant replies are rendered like live responses, minus the (stale) Apply prompts
+                content: m.role === 'assistant' ? this._processCodeBlocks(m.content) : m.content,
+                toolName: m.tool_name,
+                truncated: m.truncated
+            }))
+            .filter(m => m.content || m.role === 'tool');
+
+        this._view.webview.postMessage({
+            type: 'loadSession',
+            title: this.session.title,
+            messages
+        });
+        this._postSessionList();
+    }
+
+    /**
+     * What the webview needs to draw the controls of a message
+     */
+    private _toWebviewMessage(message: SessionMessage) {
+        return {
+            id: message.id,
+            role: message.role,
+            content: message.content,
+            model: message.model,
+            archiveId: message.archiveId,
+            mentions: message.mentions?.map(mention => mention.label),
+            siblings: this.conversation.getSiblingInfo(message.id)
+        };
+    }
+
+    private _postSessionList() {
+        if (!this._view) return;
+
+        this._view.webview.postMessage({
+            type: 'sessionList',
+            activeId: this.session.id,
+            sessions: this.sessionStore.list()
+        });
+    }
+
     private _cleanupOldRecommendations() {
         const now = Date.now();
         const maxAge = 30 * 60 * 1000; // 30 minutes
@@ -381,11 +1675,37 @@ export class OllamaProvider implements vscode.WebviewViewProvider {
         }
     }
 
-    private async _getWorkspaceContext(): Promise<string> {
+    /**
+     * Resolve the mentions picked in the input and those typed in the text.
+     * Returns undefined when there are none; failures are shown in the chat.
+     */
+    private async _resolveMentions(content: string, mentions: Mention[] = []): Promise<ResolvedMention[] | undefined> {
+        const { resolved, errors } = await this.mentionResolver.resolve([...mentions, ...this.mentionResolver.parse(content)]);
+        if (errors.length > 0) {
+            this._view?.webview.postMessage({ type: 'notice', text: `Could not attach ${errors.join('; ')}` });
+        }
+        return resolved.length > 0 ? resolved : undefined;
+    }
+
+    /**
+     * The active branch as the model sees it, with mentioned context attached.
+     * Without native tool support, tool results are passed on as user messages.
+     */
+    private _getModelHistory(nativeTools = true): ChatMessage[] {
+        return this.conversation.getActivePath().map(message => message.role === 'tool' && !nativeTools
+            ? { role: 'user', content: `Result of ${message.tool_name || 'the tool call'}:\n${message.content}` }
+            : withMentionContext(message));
+    }
+
+    /**
+     * Workspace summary for the model. With `includeEditor` the open code file
+     * and selection are added as a guess at what the user is working on.
+     */
+    private async _getWorkspaceContext(includeEditor = true): Promise<string> {
         try {
             const workspaceInfo = this.toolsService.getWorkspaceInfo();
-            let currentFile = await this.toolsService.getCurrentFile();
-            const selectedText = this.toolsService.getSelectedText();
+            let currentFile = includeEditor ? await this.toolsService.getCurrentFile() : null;
+            const selectedText = includeEditor ? this.toolsService.getSelectedText() : null;
             
             this._outputChannel.appendLine(`[DEBUG] Workspace info: ${JSON.stringify(workspaceInfo)}`);
             this._outputChannel.appendLine(`[DEBUG] Current file: ${currentFile ? currentFile.path : 'none'}`);
@@ -417,7 +1737,7 @@ export class OllamaProvider implements vscode.WebviewViewProvider {
                 return false;
             });
             
-            if (preferredEditor && preferredEditor.input instanceof vscode.TabInputText) {
+            if (includeEditor && preferredEditor && preferredEditor.input instanceof vscode.TabInputText) {
                 this._outputChannel.appendLine(`[DEBUG] Found preferred code file: ${preferredEditor.input.uri.fsPath}`);
                 // Override the current file with the preferred code file
                 const preferredDoc = await vscode.workspace.openTextDocument(preferredEditor.input.uri);
@@ -464,12 +1784,11 @@ export class OllamaProvider implements vscode.WebviewViewProvider {
         }
     }
 
-    private _getSystemPrompt(): string {
-        const model = this.selectedModel.toLowerCase();
-        
-        this.debugService.log('_getSystemPrompt', 'Generating system prompt for model', { 
-            model: this.selectedModel,
-            modelLower: model 
+    private _getSystemPrompt(model: string = this.selectedModel): string {
+        const profile = this.modelProfiles.resolve(model);
+        this.debugService.log('_getSystemPrompt', 'Generating system prompt for model', {
+            model,
+            profiles: profile.names
         });
         
         // Common core system prompt
@@ -483,42 +1802,8 @@ Your main goal is to follow the USER's instructions at each message.
 
 **CRITICAL**: Always pay attention to the current file context provided in the workspace information. If the user has a specific file open (like main.py, main.go, etc.), you MUST respond in the same language and target that file. Do NOT switch languages or create files in different languages unless explicitly requested.`;
 
-        // Model-specific adaptations
-        let modelSpecificPrompt = '';
-        
-        if (model.includes('qwen') || model.includes('coder')) {
-            // Qwen models (especially coder variants) need more explicit instructions about workspace access
-            this.debugService.log('_getSystemPrompt', 'Using Qwen-specific prompt');
-            modelSpecificPrompt = `
-
-**WORKSPACE ACCESS FOR QWEN MODELS**: You have full access to the current workspace and file content. The workspace context provided in the user message contains the actual file content that you can analyze and work with. When a user asks you to review, analyze, or work with code, the code is already available to you in the workspace context. You do NOT need to ask the user to provide the code - it's already there for you to analyze.
-
-**IMPORTANT FOR QWEN**: The workspace context includes the current file content. You can see and analyze the code that is currently open in the editor. Work directly with the code provided in the context.`;
-        } else if (model.includes('llama') || model.includes('meta')) {
-            // Llama models generally understand context well
-            this.debugService.log('_getSystemPrompt', 'Using Llama-specific prompt');
-            modelSpecificPrompt = `
-
-**WORKSPACE ACCESS**: You have access to the current workspace context, which includes the current file content provided in the user message. When analyzing code, work with the content provided in the workspace context.`;
-        } else if (model.includes('deepseek') || model.includes('deep')) {
-            // Deepseek models are good at following instructions
-            this.debugService.log('_getSystemPrompt', 'Using Deepseek-specific prompt');
-            modelSpecificPrompt = `
-
-**WORKSPACE CONTEXT**: You can access the current file content through the workspace context provided in the user message. Analyze and work with the code that is available in the context.`;
-        } else if (model.includes('codellama') || model.includes('code')) {
-            // Code-specific models
-            this.debugService.log('_getSystemPrompt', 'Using CodeLlama-specific prompt');
-            modelSpecificPrompt = `
-
-**CODE ANALYSIS**: You have access to the current file content through the workspace context. The code you need to analyze is provided in the user message. Work directly with this code.`;
-        } else {
-            // Default for unknown models
-            this.debugService.log('_getSystemPrompt', 'Using default prompt for unknown model');
-            modelSpecificPrompt = `
-
-**WORKSPACE ACCESS**: You have access to the current file content through the workspace context provided in the user message. When a user asks you to review or analyze code, the code is already available to you in the workspace context.`;
-        }
+        // Model-specific adaptations come from the matching model profiles
+        const modelSpecificPrompt = profile.systemPrompt ? `\n\n${profile.systemPrompt}` : '';
 
         // Add the rest of the common system prompt
         const restOfPrompt = `
@@ -555,10 +1840,10 @@ The workspace context contains the actual file content that you can analyze and
 <code_recommendations>
 When you make code recommendations that should be applied to files, format them as follows:
 
-1. For new files: Use code blocks with filename in header like \`\`\`go main.go
-2. For existing files: Use code blocks with filename in header like \`\`\`go main.go
-3. For code edits: Always specify the target filename in the header, even for partial edits
-4. For line-specific edits: Include line numbers in comments to indicate where changes should be made
+1. For new files: Use code blocks with filename in header like \`\`\`go main.go and the complete file content
+2. For changes to existing files: Use SEARCH/REPLACE blocks (see below), so only the changed lines are replaced
+3. To rewrite an existing file completely: Use a code block with filename in header and the complete new content
+4. Always specify the target filename in the header, even for partial edits
 
 IMPORTANT: When the user has a specific file open (like main.py, main.go, etc.), always target that file in your code blocks. For example:
 - If main.py is open: \`\`\`python main.py
@@ -580,19 +1865,25 @@ IMPORTANT: When editing existing files, always include the filename in the code
 - To edit app.py: \`\`\`python app.py
 - To edit index.js: \`\`\`javascript index.js
 
-For line-specific edits, use comments to indicate line numbers:
-\`\`\`python
-# Line 15: Update function signature
-def helloHandler(w http.ResponseWriter, r *http.Request):
-    # Line 16-18: Add error handling
-    if _, err := fmt.Fprint(w, "Hello, World!"); err != nil:
+To change part of an existing file, put one or more SEARCH/REPLACE blocks in a code block with the filename in the header:
+\`\`\`go main.go
+<<<<<<< SEARCH
+func helloHandler(w http.ResponseWriter, r *http.Request) {
+    fmt.Fprint(w, "Hello, World!")
+}
+=======
+func helloHandler(w http.ResponseWriter, r *http.Request) {
+    if _, err := fmt.Fprint(w, "Hello, World!"); err != nil {
         http.Error(w, err.Error(), http.StatusInternalServerError)
-        return
+    }
+}
+>>>>>>> REPLACE
 \`\`\`
+The SEARCH part must repeat the current lines of the file exactly, including comments, and be long enough to match only one place. Keep each block to the changed lines plus a little context. Blocks are applied in order; an empty REPLACE part deletes the lines.
 
 **CRITICAL**: When editing existing files, you MUST:
 1. Include the filename in the code block header: \`\`\`python main.py
-2. Use line number comments: # Line 15: description
+2. Use SEARCH/REPLACE blocks instead of partial snippets - a snippet without them replaces the whole file
 3. Target the currently open file (main.py, main.go, etc.)
 
 This ensures the system knows which file to modify and where to apply the changes, instead of creating new files.
@@ -623,6 +1914,18 @@ The system supports a wide range of file types including:
 The system will detect these code blocks in real-time during streaming and ask the user if they want to apply the changes.
 </code_recommendations>
 
+<tools>
+You can use tools to work with the workspace: read_file, write_file, open_file, list_files, search_workspace and run_command.
+If function calling is available, call these tools directly and wait for their results before continuing.
+Otherwise, request a tool with an XML tag on its own line:
+- <read_file>path/to/file</read_file>
+- <open_file>path/to/file</open_file>
+- <write_file>path/to/file
+file content</write_file>
+- <run_command>npm test</run_command>
+The result of each tool call is sent back to you. Keep working step by step until the task is done, then give your answer without further tool calls.
+</tools>
+
 <making_code_changes>
 When making code changes:
 1. Use the file write tool to create or modify files
@@ -644,49 +1947,65 @@ When debugging:
 
 Remember: You have full access to the workspace and can read, write, and open files as needed to help the user with their coding tasks.`;
 
-        return commonPrompt + modelSpecificPrompt + restOfPrompt + codeRecommendations;
-    }
+        // Conventions from the project's rule files come last so they win over the generic guidance
+        const rules = this.projectRules.getRules(vscode.window.activeTextEditor?.document);
+        let projectRules = '';
+        if (rules.text) {
+            this.debugService.log('_getSystemPrompt', 'Adding project rules', { sources: rules.sources });
+            projectRules = `
 
-    private async _processToolCall(toolCall: string, toolType: string) {
-        try {
-            this._outputChannel.appendLine(`[DEBUG] Processing tool call of type: ${toolType}`);
-            this._outputChannel.appendLine(`[DEBUG] Tool call content: ${toolCall.substring(0, 200)}...`);
-            
-            // Validate tool call format
-            if (!this._isValidToolCall(toolCall, toolType)) {
-                this._outputChannel.appendLine(`[DEBUG] Invalid tool call format, skipping: ${toolCall.substring(0, 100)}...`);
-                return;
-            }
-            
-            switch (toolType) {
-                case 'read_file':
-                    const readFilePath = toolCall.replace(/<\/?read_file>/g, '').trim();
-                    if (this._isValidFilePath(readFilePath)) {
-                        await this._handleFileReadRequest(readFilePath);
-                    } else {
-                        this._outputChannel.appendLine(`[DEBUG] Invalid file path in read_file tool call: ${readFilePath}`);
-                    }
-                    break;
-                case 'write_file':
-                    const writeContent = toolCall.replace(/<\/?write_file>/g, '').trim();
-                    if (writeContent) {
-                        await this._handleFileWriteRequest(writeContent);
-                    } else {
-                        this._outputChannel.appendLine(`[DEBUG] Empty write_file tool call content`);
-                    }
-                    break;
-                case 'open_file':
-                    const openFilePath = toolCall.replace(/<\/?open_file>/g, '').trim();
-                    if (this._isValidFilePath(openFilePath)) {
-                        await this._handleFileOpenRequest(openFilePath);
-                    } else {
-                        this._outputChannel.appendLine(`[DEBUG] Invalid file path in open_file tool call: ${openFilePath}`);
-                    }
-                    break;
-            }
-        } catch (error) {
-            this._outputChannel.appendLine(`Error processing tool call: ${error}`);
+<project_rules>
+These rules were set by the project. Follow them; where they conflict with the guidance above, the project rules take precedence.
+
+${rules.text}
+</project_rules>`;
         }
+
+        return commonPrompt + modelSpecificPrompt + restOfPrompt + codeRecommendations + projectRules;
+    }
+
+    /**
+     * Open the system prompt of the last request, including the project rules
+     * that applied. Before the first request it shows what would be sent now.
+     */
+    public async showEffectivePrompt(): Promise<void> {
+        const sent = this.lastSystemPrompt;
+        const note = sent
+            ? `_Sent to ${sent.prompts.map(p => p.model).join(', ')} on ${new Date(sent.sentAt).toLocaleString()}_`
+            : `_Nothing has been sent yet. This is the prompt the next message to ${this.selectedModel} would use._`;
+        const prompts = sent?.prompts ?? [{ model: this.selectedModel, prompt: this._getSystemPrompt() }];
+        const sections = prompts.flatMap(({ model, prompt }) => prompts.length > 1 ? [`## ${model}`, '', prompt, ''] : [prompt, '']);
+        const content = ['# Effective system prompt', '', note, '', ...sections].join('\n');
+        const document = await vscode.workspace.openTextDocument({ language: 'markdown', content });
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+
+    /**
+     * Turn a tool requested with an XML tag into a tool call, or undefined when
+     * the tag is malformed
+     */
+    private _toolCallFromXml(tag: XmlToolTag): ToolCall | undefined {
+        this._outputChannel.appendLine(`[DEBUG] Processing XML tool call of type: ${tag.name}`);
+        this._outputChannel.appendLine(`[DEBUG] Tool call content: ${tag.raw.substring(0, 200)}...`);
+        
+        // Validate tool call format
+        if (!this._isValidToolCall(tag.raw, tag.name)) {
+            this._outputChannel.appendLine(`[DEBUG] Invalid tool call format, skipping: ${tag.raw.substring(0, 100)}...`);
+            return undefined;
+        }
+        
+        const call = this.toolRegistry.fromXml(tag.name, tag.body);
+        if (!call) {
+            this._outputChannel.appendLine(`[DEBUG] No XML mapping for tool: ${tag.name}`);
+            return undefined;
+        }
+        
+        const filePath = call.function.arguments.path;
+        if (typeof filePath === 'string' && !this._isValidFilePath(filePath)) {
+            this._outputChannel.appendLine(`[DEBUG] Invalid file path in ${tag.name} tool call: ${filePath}`);
+            return undefined;
+        }
+        return call;
     }
 
     private _isValidToolCall(toolCall: string, toolType: string): boolean {
@@ -717,110 +2036,6 @@ Remember: You have full access to the workspace and can read, write, and open fi
         return true;
     }
 
-    private async _processToolCalls(response: string) {
-        try {
-            // Check for file read requests
-            const readFileMatches = response.match(/<read_file>(.*?)<\/read_file>/gs);
-            if (readFileMatches) {
-                for (const match of readFileMatches) {
-                    const filePath = match.replace(/<\/?read_file>/g, '').trim();
-                    await this._handleFileReadRequest(filePath);
-                }
-            }
-
-            // Check for file write requests
-            const writeFileMatches = response.match(/<write_file>(.*?)<\/write_file>/gs);
-            if (writeFileMatches) {
-                for (const match of writeFileMatches) {
-                    const content = match.replace(/<\/?write_file>/g, '').trim();
-                    await this._handleFileWriteRequest(content);
-                }
-            }
-
-            // Check for file open requests
-            const openFileMatches = response.match(/<open_file>(.*?)<\/open_file>/gs);
-            if (openFileMatches) {
-                for (const match of openFileMatches) {
-                    const filePath = match.replace(/<\/?open_file>/g, '').trim();
-                    await this._handleFileOpenRequest(filePath);
-                }
-            }
-        } catch (error) {
-            this._outputChannel.appendLine(`Error processing tool calls: ${error}`);
-        }
-    }
-
-    private async _handleFileReadRequest(filePath: string) {
-        try {
-            const content = await this.toolsService.readFile(filePath);
-            const message = `File content for ${filePath}:\n\`\`\`\n${content}\n\`\`\``;
-            
-            if (this._view) {
-                this._view.webview.postMessage({
-                    type: 'assistantMessage',
-                    content: message
-                });
-            }
-        } catch (error) {
-            const errorMessage = `Error reading file ${filePath}: ${error}`;
-            if (this._view) {
-                this._view.webview.postMessage({
-                    type: 'error',
-                    message: errorMessage
-                });
-            }
-        }
-    }
-
-    private async _handleFileWriteRequest(content: string) {
-        try {
-            // Extract file path and content from the write request
-            const lines = content.split('\n');
-            const filePath = lines[0].trim();
-            const fileContent = lines.slice(1).join('\n');
-            
-            await this.toolsService.writeFile(filePath, fileContent);
-            
-            const message = `Successfully wrote to file: ${filePath}`;
-            if (this._view) {
-                this._view.webview.postMessage({
-                    type: 'assistantMessage',
-                    content: message
-                });
-            }
-        } catch (error) {
-            const errorMessage = `Error writing file: ${error}`;
-            if (this._view) {
-                this._view.webview.postMessage({
-                    type: 'error',
-                    message: errorMessage
-                });
-            }
-        }
-    }
-
-    private async _handleFileOpenRequest(filePath: string) {
-        try {
-            await this.toolsService.openFile(filePath);
-            
-            const message = `Opened file: ${filePath}`;
-            if (this._view) {
-                this._view.webview.postMessage({
-                    type: 'assistantMessage',
-                    content: message
-                });
-            }
-        } catch (error) {
-            const errorMessage = `Error opening file ${filePath}: ${error}`;
-            if (this._view) {
-                this._view.webview.postMessage({
-                    type: 'error',
-                    message: errorMessage
-                });
-            }
-        }
-    }
-
     private _detectCodeRecommendations(response: string): Array<{filePath: string, code: string, language?: string, lineNumbers?: string[]}> {
         const recommendations: Array<{filePath: string, code: string, language?: string, lineNumbers?: string[]}> = [];
         
@@ -852,6 +2067,21 @@ Remember: You have full access to the workspace and can read, write, and open fi
             
             this._outputChannel.appendLine(`[DEBUG] Code block ${blockCount}: language="${language}", header="${header}"`);
             
+            // A unified diff names its files itself and may cover several of them
+            if (isUnifiedDiff(code, language)) {
+                const headerPath = header && this._isValidFilePath(header.trim()) ? header.trim() : undefined;
+                for (const filePatch of splitUnifiedDiff(code, headerPath)) {
+                    if (!filePatch.filePath) {
+                        this._outputChannel.appendLine(`[DEBUG] Skipping diff without a file name in code block ${blockCount}`);
+                        continue;
+                    }
+                    const patchPath = vscode.workspace.asRelativePath(filePatch.filePath, false);
+                    this._outputChannel.appendLine(`[DEBUG] Adding diff recommendation: ${patchPath}`);
+                    recommendations.push({ filePath: patchPath, code: filePatch.patch, language: 'diff' });
+                }
+                continue;
+            }
+            
             // Try to extract file path from header or first comment
             let filePath = '';
             
@@ -968,8 +2198,10 @@ Remember: You have full access to the workspace and can read, write, and open fi
                         }
                     }
                     
-                    // If still no file path, generate a default one
-                    if (!filePath) {
+                    // If still no file path, generate a default one - except for edits, which need a file to edit
+                    if (!filePath && hasSearchReplaceBlocks(code)) {
+                        this._outputChannel.appendLine(`[DEBUG] Skipping SEARCH/REPLACE blocks without a file path in code block ${blockCount}`);
+                    } else if (!filePath) {
                         filePath = this._generateDefaultFileName(language, code, blockCount);
                         this._outputChannel.appendLine(`[DEBUG] Generated default file path: "${filePath}"`);
                     }
@@ -981,6 +2213,14 @@ Remember: You have full access to the workspace and can read, write, and open fi
             // If we found or generated a file path, add it as a recommendation
             if (filePath) {
                 this._outputChannel.appendLine(`[DEBUG] Adding recommendation: ${filePath} (${language})`);
+                if (hasSearchReplaceBlocks(code)) {
+                    try {
+                        this._outputChannel.appendLine(`[DEBUG] Found ${parseSearchReplaceBlocks(code).length} SEARCH/REPLACE blocks for ${filePath}`);
+                    } catch (error) {
+                        // Still offered, so applying it reports what is wrong
+                        this._outputChannel.appendLine(`[DEBUG] Malformed SEARCH/REPLACE blocks for ${filePath}: ${error}`);
+                    }
+                }
                 recommendations.push({
                     filePath: filePath.trim(),
                     code: code,
@@ -999,6 +2239,19 @@ Remember: You have full access to the workspace and can read, write, and open fi
         const seenPaths = new Set<string>();
         
         for (const rec of recommendations) {
+            // SEARCH/REPLACE blocks and diffs for a file may be spread over several code blocks
+            const earlier = uniqueRecommendations.find(unique => unique.filePath === rec.filePath);
+            if (earlier && hasSearchReplaceBlocks(earlier.code) && hasSearchReplaceBlocks(rec.code)) {
+                earlier.code += '\n' + rec.code;
+                this._outputChannel.appendLine(`[DEBUG] Added SEARCH/REPLACE blocks to the recommendation for ${rec.filePath}`);
+                continue;
+            }
+            if (earlier && earlier.language === 'diff' && rec.language === 'diff') {
+                earlier.code += rec.code;
+                this._outputChannel.appendLine(`[DEBUG] Added diff hunks to the recommendation for ${rec.filePath}`);
+                continue;
+            }
+            
             // Skip if we've already seen this file path
             if (seenPaths.has(rec.filePath)) {
                 this._outputChannel.appendLine(`[DEBUG] Skipping duplicate file path: ${rec.filePath}`);
@@ -1300,14 +2553,28 @@ Remember: You have full access to the workspace and can read, write, and open fi
             this._outputChannel.appendLine(`[DEBUG] Code preview: ${recommendation.code.substring(0, 200)}...`);
             
             try {
-                await this.toolsService.writeFile(recommendation.filePath, recommendation.code);
+                const review = await this._previewCodeChange(recommendation);
+                if (!review) {
+                    results.push(`➖ ${recommendation.filePath} already contains these changes`);
+                    continue;
+                }
+                if (!review.accepted) {
+                    results.push(`↩️ Did not apply changes to ${recommendation.filePath}`);
+                    this._recordChange(recommendation.filePath, 'rejected');
+                    continue;
+                }
+                await this._checkpoint(requestId, recommendation.filePath);
+                await this.toolsService.writeFile(recommendation.filePath, review.content);
                 this._outputChannel.appendLine(`[DEBUG] Successfully wrote file: ${recommendation.filePath}`);
-                results.push(`✅ Successfully applied changes to ${recommendation.filePath}`);
+                results.push(`✅ Successfully applied changes to ${recommendation.filePath}` + (review.edited ? ' (edited)' : ''));
+                this._recordChange(recommendation.filePath, 'applied', review.edited ? 'Edited in the preview before applying' : undefined);
             } catch (error) {
                 this._outputChannel.appendLine(`[DEBUG] Failed to write file: ${error}`);
                 results.push(`❌ Failed to apply changes to ${recommendation.filePath}: ${error}`);
+                this._recordChange(recommendation.filePath, 'failed', String(error));
             }
         }
+        await this._saveSession();
         
         const resultMessage = `Code changes applied:\n\n${results.join('\n')}`;
         
@@ -1353,24 +2620,377 @@ Remember: You have full access to the workspace and can read, write, and open fi
         this._outputChannel.appendLine(`[DEBUG] Found recommendation for ${filePath}, code length: ${recommendation.code.length}`);
         this._outputChannel.appendLine(`[DEBUG] Code preview: ${recommendation.code.substring(0, 200)}...`);
         
+        const postResult = (status: 'applied' | 'rejected' | 'unchanged' | 'failed') => this._view?.webview.postMessage({
+            type: 'codeChangeResult',
+            requestId,
+            filePath,
+            status
+        });
+        
         try {
-            await this.toolsService.writeFile(recommendation.filePath, recommendation.code);
+            // Nothing is written until the change is accepted in the diff preview
+            const review = await this._previewCodeChange(recommendation);
+            if (!review) {
+                this._view?.webview.postMessage({ type: 'notice', text: `${recommendation.filePath} already contains these changes.` });
+                postResult('unchanged');
+                return;
+            }
+            if (!review.accepted) {
+                // The recommendation stays pending, so it can be reviewed again
+                this._recordChange(recommendation.filePath, 'rejected');
+                postResult('rejected');
+                return;
+            }
+            
+            await this._checkpoint(requestId, recommendation.filePath);
+            await this.toolsService.writeFile(recommendation.filePath, review.content);
             this._outputChannel.appendLine(`[DEBUG] Successfully wrote file: ${recommendation.filePath}`);
             
             // Refresh the editor tab to show the updated content
             await this._refreshEditorTab(recommendation.filePath);
             
-            this._view.webview.postMessage({
+            this._view?.webview.postMessage({
                 type: 'assistantMessage',
-                content: `✅ Successfully applied changes to ${recommendation.filePath}`
+                content: `✅ Successfully applied changes to ${recommendation.filePath}` + (review.edited ? ' (with your edits)' : '')
             });
+            this._recordChange(recommendation.filePath, 'applied', review.edited ? 'Edited in the preview before applying' : undefined);
+            postResult('applied');
+            
+            const remaining = (this.pendingRecommendations.get(requestId) || []).filter(rec => rec !== recommendation);
+            if (remaining.length > 0) {
+                this.pendingRecommendations.set(requestId, remaining);
+            } else {
+                this.pendingRecommendations.delete(requestId);
+            }
         } catch (error) {
             this._outputChannel.appendLine(`[DEBUG] Failed to write file: ${error}`);
-            this._view.webview.postMessage({
+            this._view?.webview.postMessage({
                 type: 'assistantMessage',
                 content: `❌ Failed to apply changes to ${recommendation.filePath}: ${error}`
             });
+            this._recordChange(recommendation.filePath, 'failed', String(error));
+            postResult('failed');
+        } finally {
+            await this._saveSession();
+        }
+    }
+
+    /**
+     * Show a recommendation as a diff against the file on disk and wait for the
+     * user to accept (possibly after editing it) or reject it. Resolves to
+     * undefined when the file already has the proposed content.
+     */
+    private async _previewCodeChange(recommendation: { filePath: string, code: string, lineNumbers?: string[] }): Promise<ChangeReview | undefined> {
+        const current = await this._readFileIfExists(recommendation.filePath);
+        const { content: proposed, hunks } = this._getProposedContent(recommendation.filePath, recommendation.code, current);
+        if (proposed === current) {
+            return undefined;
+        }
+        
+        let note: string | undefined;
+        if (hunks) {
+            this._view?.webview.postMessage({
+                type: 'assistantMessage',
+                content: this._describeHunks(recommendation.filePath, hunks)
+            });
+            const conflicts = hunks.filter(hunk => !hunk.applied).length;
+            if (conflicts > 0) {
+                note = `${conflicts} of ${hunks.length} hunks did not apply and are marked with <<<<<<< expected in the proposed side.`;
+            }
+        }
+        return this.changePreview.review(recommendation.filePath, current, proposed, note);
+    }
+
+    /**
+     * Contents of a file, or undefined when it does not exist yet
+     */
+    private async _readFileIfExists(filePath: string): Promise<string | undefined> {
+        try {
+            return await this.toolsService.readFile(filePath);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+            return undefined;
+        }
+    }
+
+    /**
+     * Open every pending change of a request (the latest one by default) in the
+     * change set panel, and write the accepted hunks of all files in one go.
+     * The whole set is one checkpoint, so it can be undone at once. Files with
+     * diff hunks that did not apply open in the diff preview afterwards instead.
+     */
+    public async reviewChangeSet(requestId?: string): Promise<void> {
+        requestId = requestId || [...this.pendingRecommendations.keys()].pop();
+        const recommendations = requestId ? this.pendingRecommendations.get(requestId) : undefined;
+        if (!requestId || !recommendations || recommendations.length === 0) {
+            vscode.window.showInformationMessage('There are no pending code changes to review.');
+            this._view?.webview.postMessage({ type: 'changeSetResult', requestId, status: 'empty' });
+            return;
+        }
+        
+        const files: ChangeSetFile[] = [];
+        // Files with diff hunks that did not apply, which are resolved by hand in the diff preview
+        const conflicted: string[] = [];
+        for (const recommendation of recommendations) {
+            try {
+                const current = await this._readFileIfExists(recommendation.filePath);
+                const { content, hunks } = this._getProposedContent(recommendation.filePath, recommendation.code, current);
+                const conflicts = hunks?.filter(hunk => !hunk.applied).length;
+                if (conflicts) {
+                    // The proposed content holds conflict markers, which must not be applied as a hunk
+                    conflicted.push(recommendation.filePath);
+                    files.push({
+                        filePath: recommendation.filePath,
+                        current,
+                        error: `${conflicts} of ${hunks!.length} diff hunks did not apply. The file opens in the diff preview after applying, to resolve them by hand.`
+                    });
+                } else {
+                    files.push({ filePath: recommendation.filePath, current, proposed: content });
+                }
+            } catch (error) {
+                files.push({ filePath: recommendation.filePath, error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+        
+        const result = await this.changeSetPanel.review(`Review Changes (${files.length} files)`, files);
+        if (!result || (result.accepted.length === 0 && result.failed.length === 0)) {
+            this._view?.webview.postMessage({ type: 'changeSetResult', requestId, status: 'cancelled' });
+        } else {
+            await this._applyChangeSet(requestId, result);
+        }
+        if (result) {
+            for (const filePath of conflicted) {
+                await this._applyCodeChangeFromRequest(requestId, filePath);
+            }
+        }
+    }
+
+    private async _applyChangeSet(requestId: string, result: ChangeSetResult) {
+        const lines: string[] = [];
+        const applied = new Set<string>();
+        const postResult = (filePath: string, status: 'applied' | 'rejected' | 'failed') => this._view?.webview.postMessage({
+            type: 'codeChangeResult',
+            requestId,
+            filePath,
+            status
+        });
+        
+        for (const file of result.accepted) {
+            try {
+                // The review shows the file as it was when the panel opened; writing
+                // over later edits would silently lose them
+                if (await this._readFileIfExists(file.filePath) !== file.original) {
+                    throw new Error('The file changed while the changes were being reviewed; review them again');
+                }
+                await this._checkpoint(requestId, file.filePath);
+                await this.toolsService.writeFile(file.filePath, file.content);
+                await this._refreshEditorTab(file.filePath);
+                const partial = file.acceptedHunks < file.totalHunks;
+                lines.push(`✅ ${file.filePath}` + (partial ? ` (${file.acceptedHunks} of ${file.totalHunks} hunks)` : ''));
+                this._recordChange(file.filePath, 'applied', partial ? `Accepted ${file.acceptedHunks} of ${file.totalHunks} hunks` : undefined);
+                applied.add(file.filePath);
+                postResult(file.filePath, 'applied');
+            } catch (error) {
+                lines.push(`❌ ${file.filePath}: ${error}`);
+                this._recordChange(file.filePath, 'failed', String(error));
+                postResult(file.filePath, 'failed');
+            }
+        }
+        for (const { filePath, error } of result.failed) {
+            lines.push(`❌ ${filePath}: ${error}`);
+            this._recordChange(filePath, 'failed', error);
+            postResult(filePath, 'failed');
+        }
+        for (const filePath of result.rejected) {
+            lines.push(`↩️ ${filePath} (rejected)`);
+            this._recordChange(filePath, 'rejected');
+            postResult(filePath, 'rejected');
+        }
+        await this._saveSession();
+        
+        // Rejected and failed files stay pending, so they can still be applied one by one
+        const remaining = (this.pendingRecommendations.get(requestId) || []).filter(rec => !applied.has(rec.filePath));
+        if (remaining.length > 0) {
+            this.pendingRecommendations.set(requestId, remaining);
+        } else {
+            this.pendingRecommendations.delete(requestId);
+        }
+        
+        this._view?.webview.postMessage({ type: 'assistantMessage', content: `Change set applied:\n\n${lines.join('\n')}` });
+        this._view?.webview.postMessage({ type: 'changeSetResult', requestId, status: applied.size > 0 ? 'applied' : 'failed' });
+        
+        if (applied.size > 0) {
+            // Not awaited, so files left for the diff preview open while the notification shows
+            vscode.window.showInformationMessage(
+                `Applied changes to ${applied.size} file${applied.size === 1 ? '' : 's'}.`,
+                'Undo'
+            ).then(choice => {
+                if (choice === 'Undo') {
+                    this.restoreCheckpoint(requestId);
+                }
+            });
+        }
+    }
+
+    /**
+     * Per-hunk outcome of applying a diff, for the chat
+     */
+    private _describeHunks(filePath: string, hunks: HunkResult[]): string {
+        const lines = hunks.map((hunk, index) => {
+            const name = `Hunk ${index + 1} (${hunk.header})`;
+            if (!hunk.applied) {
+                return `⚠️ ${name} did not apply; it is marked at line ${hunk.line} of the preview to resolve by hand`;
+            }
+            const notes: string[] = [];
+            if (hunk.offset !== 0) {
+                notes.push(`${Math.abs(hunk.offset)} line${Math.abs(hunk.offset) === 1 ? '' : 's'} ${hunk.offset > 0 ? 'lower' : 'higher'} than the diff said`);
+            }
+            if (hunk.fuzzy) {
+                notes.push('some context lines did not match');
+            }
+            return `✅ ${name} applied at line ${hunk.line}` + (notes.length > 0 ? ` (${notes.join('; ')})` : '');
+        });
+        return `Diff for ${filePath}:\n\n${lines.join('\n')}`;
+    }
+
+    /**
+     * The file content a recommendation leads to. SEARCH/REPLACE blocks, diffs
+     * and `// Line n-m:` sections only change the region they point at; anything
+     * else is the complete new file. Throws when an edit cannot be placed,
+     * rather than writing a snippet over the whole file. For diffs the outcome
+     * of each hunk is returned too.
+     */
+    private _getProposedContent(filePath: string, code: string, current: string | undefined): Partial<PatchResult> & { content: string } {
+        if (hasSearchReplaceBlocks(code)) {
+            const edits = parseSearchReplaceBlocks(code);
+            if (current === undefined && edits.some(edit => edit.search.trim())) {
+                throw new Error(`${filePath} does not exist, so its SEARCH/REPLACE blocks cannot be applied.`);
+            }
+            return { content: applySearchReplace(current ?? '', edits, filePath) };
+        }
+        if (isUnifiedDiff(code)) {
+            const files = splitUnifiedDiff(code, filePath);
+            if (files.some(file => file.deleted)) {
+                throw new Error(`The diff deletes ${filePath}. Delete the file yourself if that is intended.`);
+            }
+            if (current === undefined && !files.every(file => file.created)) {
+                throw new Error(`${filePath} does not exist, so the diff for it cannot be applied.`);
+            }
+            return applyUnifiedDiff(current ?? '', code);
+        }
+        if (current !== undefined && hasLineMarkers(code)) {
+            const merged = mergePartialEdit(current, code);
+            if (merged === undefined) {
+                throw new Error(`The snippet for ${filePath} refers to lines that do not fit the file. Ask for SEARCH/REPLACE blocks instead.`);
+            }
+            return { content: merged };
+        }
+        return { content: code };
+    }
+
+    /**
+     * Accept or reject the open change preview, e.g. from its editor title buttons
+     */
+    public async settleProposedChange(accepted: boolean, uri?: vscode.Uri): Promise<void> {
+        await this.changePreview.settle(uri ?? vscode.window.activeTextEditor?.document.uri, accepted);
+    }
+
+    /**
+     * Save the current contents of a file before the assistant writes it, so the
+     * change can be rolled back. A file that cannot be read is still written.
+     */
+    private async _checkpoint(requestId: string, filePath: string) {
+        const lastUserMessage = this.conversation.getActivePath().filter(m => m.role === 'user').pop();
+        const label = lastUserMessage?.content.split('\n')[0].substring(0, 80) || 'Assistant change';
+        try {
+            await this.checkpoints.snapshot(requestId, label, this.session.id, filePath);
+        } catch (error) {
+            this.debugService.log('_checkpoint', `Could not snapshot ${filePath}`, error);
+        }
+    }
+
+    private _postCheckpointList() {
+        if (!this._view) return;
+
+        this._view.webview.postMessage({
+            type: 'checkpointList',
+            checkpoints: this.checkpoints.list().map(checkpoint => ({
+                id: checkpoint.id,
+                label: checkpoint.label,
+                createdAt: checkpoint.createdAt,
+                files: checkpoint.files.map(file => ({
+                    path: vscode.workspace.asRelativePath(file.path, false),
+                    created: file.content === undefined
+                }))
+            }))
+        });
+    }
+
+    /**
+     * Roll the workspace back to before a checkpoint, picked from a list when no
+     * ID is given. Checkpoints made after it are rolled back as well.
+     */
+    public async restoreCheckpoint(id?: string): Promise<void> {
+        const checkpoints = this.checkpoints.list();
+        if (checkpoints.length === 0) {
+            vscode.window.showInformationMessage('There are no assistant changes to roll back.');
+            return;
+        }
+
+        let checkpoint = id ? checkpoints.find(c => c.id === id) : undefined;
+        if (!id) {
+            const picked = await vscode.window.showQuickPick(checkpoints.map(c => ({
+                label: c.label,
+                description: new Date(c.createdAt).toLocaleString(),
+                detail: c.files.map(file => vscode.workspace.asRelativePath(file.path, false) + (file.content === undefined ? ' (new)' : '')).join(', '),
+                checkpoint: c
+            })), { placeHolder: 'Restore the files to their state before this request' });
+            checkpoint = picked?.checkpoint;
+        }
+        if (!checkpoint) return;
+
+        const later = checkpoints.indexOf(checkpoint);
+        const files = new Set(checkpoints.slice(0, later + 1).flatMap(c => c.files.map(file => file.path)));
+        const choice = await vscode.window.showWarningMessage(
+            `Restore ${files.size} file${files.size === 1 ? '' : 's'} to their state before "${checkpoint.label}"?` +
+                (later > 0 ? ` The ${later} later change${later === 1 ? ' is' : 's are'} undone as well.` : '') +
+                ' Files the assistant created are moved to the trash.',
+            { modal: true },
+            'Restore'
+        );
+        if (choice !== 'Restore') return;
+
+        const result = await this.checkpoints.restore(checkpoint.id);
+        this.debugService.log('restoreCheckpoint', `Restored checkpoint ${checkpoint.id}`, result);
+        if (result.failed.length > 0) {
+            vscode.window.showErrorMessage(`Could not restore ${result.failed.map(f => `${vscode.workspace.asRelativePath(f.path, false)} (${f.error})`).join(', ')}`);
+        } else {
+            vscode.window.showInformationMessage(`Restored ${result.restored.length} file${result.restored.length === 1 ? '' : 's'}.`);
+        }
+    }
+
+    /**
+     * Roll back the most recent checkpoint
+     */
+    public async undoLastChange(): Promise<void> {
+        const last = this.checkpoints.list()[0];
+        if (!last) {
+            vscode.window.showInformationMessage('There are no assistant changes to undo.');
+            return;
         }
+        await this.restoreCheckpoint(last.id);
+    }
+
+    private _recordChange(filePath: string, status: SessionChange['status'], detail?: string) {
+        (this.session.changes = this.session.changes || []).push({
+            filePath,
+            status,
+            detail,
+            timestamp: Date.now(),
+            messageId: this.session.leafId
+        });
     }
 
     private async _refreshEditorTab(filePath: string): Promise<void> {
@@ -1387,31 +3007,125 @@ Remember: You have full access to the workspace and can read, write, and open fi
                     await vscode.commands.executeCommand('workbench.action.files.revert');
                     this._outputChannel.appendLine(`[DEBUG] Reverted document to refresh: ${filePath}`);
                 }
-            } else {
-                // If the document is not open, open it
-                const uri = vscode.Uri.file(filePath);
-                const doc = await vscode.workspace.openTextDocument(uri);
-                await vscode.window.showTextDocument(doc);
-                this._outputChannel.appendLine(`[DEBUG] Opened editor tab for: ${filePath}`);
+            } else {
+                // If the document is not open, open it
+                const uri = vscode.Uri.file(filePath);
+                const doc = await vscode.workspace.openTextDocument(uri);
+                await vscode.window.showTextDocument(doc);
+                this._outputChannel.appendLine(`[DEBUG] Opened editor tab for: ${filePath}`);
+            }
+        } catch (error) {
+            this._outputChannel.appendLine(`[DEBUG] Failed to refresh editor tab: ${error}`);
+        }
+    }
+
+    /**
+     * Run a slash command by name, e.g. from the editor context menu
+     */
+    public async runSlashCommand(name: string, model?: string, input = ''): Promise<void> {
+        const command = this.slashCommands.get(name);
+        if (!command) {
+            vscode.window.showErrorMessage(`Unknown command /${name}`);
+            return;
+        }
+        await this._runSlashCommand(this.slashCommands.invoke(command, input), model || this.selectedModel);
+    }
+
+    /**
+     * Pick a prompt template and run it, asking for the `{{input}}` text when
+     * the template uses it
+     */
+    public async runPromptTemplate(): Promise<void> {
+        const templates = this.promptTemplates.getTemplates();
+        if (templates.length === 0) {
+            vscode.window.showInformationMessage('No prompt templates found. Add Markdown files to .duvut/prompts or templates to the duvut-assistant.promptTemplates setting.');
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(
+            templates.map(template => ({ label: `/${template.name}`, description: template.source, detail: template.description, template })),
+            { placeHolder: 'Prompt template', matchOnDetail: true }
+        );
+        if (!picked) return;
+
+        let input = '';
+        if (hasInputVariable(picked.template.prompt)) {
+            const typed = await vscode.window.showInputBox({ prompt: `Input for /${picked.template.name}` });
+            if (typed === undefined) return;
+            input = typed;
+        }
+        const { source, ...command } = picked.template;
+        await this._runSlashCommand(this.slashCommands.invoke(command, input), this.selectedModel);
+    }
+
+    private async _runSlashCommand(invocation: SlashCommandInvocation, model: string, mentions: Mention[] = []) {
+        if (!this._view) return;
+        const { command } = invocation;
+
+        await this._runRequest(async signal => {
+            const answer = await this._streamChatResponse(command.model || model, signal, {
+                content: invocation.prompt,
+                mentions: [...invocation.mentions, ...mentions],
+                temperature: command.temperature
+            });
+            if (answer && command.action && !signal.aborted) {
+                await this._runSlashCommandAction(command.action, answer, invocation);
+            }
+        });
+    }
+
+    /**
+     * Post-processing of a completed slash command answer
+     */
+    private async _runSlashCommandAction(action: SlashCommandAction, answer: string, invocation: SlashCommandInvocation) {
+        try {
+            switch (action) {
+                case 'writeTestFile': {
+                    const code = answer.match(/```[^\n]*\n([\s\S]*?)```/)?.[1];
+                    if (!code || !invocation.sourceFile) {
+                        this._view?.webview.postMessage({ type: 'notice', text: 'No test file was written: the answer has no code block or no source file was open.' });
+                        return;
+                    }
+                    const testPath = getTestFilePath(invocation.sourceFile);
+                    if (await this._fileExists(testPath)) {
+                        const choice = await vscode.window.showWarningMessage(`${testPath} already exists. Replace it with the generated tests?`, { modal: true }, 'Replace');
+                        if (choice !== 'Replace') return;
+                    }
+                    await this._checkpoint(this.currentRequestId, testPath);
+                    await this.toolsService.writeFile(testPath, code);
+                    this._recordChange(testPath, 'applied');
+                    await this._saveSession();
+                    this._view?.webview.postMessage({ type: 'notice', text: `Tests written to ${testPath}` });
+                    break;
+                }
+                case 'commitMessage': {
+                    const repository = await getGitRepository();
+                    repository.inputBox.value = answer.replace(/^```[^\n]*\n|```\s*$/g, '').trim();
+                    await vscode.commands.executeCommand('workbench.view.scm');
+                    this._view?.webview.postMessage({ type: 'notice', text: 'Commit message added to the Source Control input box' });
+                    break;
+                }
             }
         } catch (error) {
-            this._outputChannel.appendLine(`[DEBUG] Failed to refresh editor tab: ${error}`);
+            vscode.window.showErrorMessage(`/${invocation.command.name} failed: ${error instanceof Error ? error.message : error}`);
         }
     }
 
-    public async explainCode(code: string, model?: string): Promise<void> {
-        const prompt = `Please explain this code:\n\n\`\`\`\n${code}\n\`\`\``;
-        await this._handleChatMessage(prompt, model || this.selectedModel);
-    }
-
-    public async improveCode(code: string, model?: string): Promise<void> {
-        const prompt = `Please suggest improvements for this code:\n\n\`\`\`\n${code}\n\`\`\``;
-        await this._handleChatMessage(prompt, model || this.selectedModel);
+    private async _fileExists(filePath: string): Promise<boolean> {
+        const root = vscode.workspace.workspaceFolders?.[0]?.uri;
+        if (!root) return false;
+        try {
+            await vscode.workspace.fs.stat(vscode.Uri.joinPath(root, filePath));
+            return true;
+        } catch {
+            return false;
+        }
     }
 
-    public async fixCode(code: string, model?: string): Promise<void> {
-        const prompt = `Please help fix any issues in this code:\n\n\`\`\`\n${code}\n\`\`\``;
-        await this._handleChatMessage(prompt, model || this.selectedModel);
+    private _postSlashCommands() {
+        this._view?.webview.postMessage({
+            type: 'slashCommands',
+            commands: this.slashCommands.getCommands().map(command => ({ name: command.name, description: command.description }))
+        });
     }
 
     // Test method to verify code recommendation detection
@@ -1792,6 +3506,58 @@ And more text here.`;
             color: var(--vscode-input-foreground);
             border-radius: 4px;
         }
+        .mention-chips {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 4px;
+        }
+        .mention-chips:empty {
+            display: none;
+        }
+        .user-message .mention-chips {
+            margin-bottom: 6px;
+        }
+        .mention-chip {
+            font-size: 0.85em;
+            font-weight: normal;
+            padding: 1px 6px;
+            border-radius: 8px;
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+        .mention-chip button {
+            padding: 0 0 0 4px;
+            background: none;
+            color: inherit;
+            border: none;
+            cursor: pointer;
+        }
+        .mention-menu {
+            display: none;
+            max-height: 200px;
+            overflow-y: auto;
+            margin-top: 8px;
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+            background-color: var(--vscode-editorWidget-background);
+        }
+        .mention-item {
+            display: flex;
+            justify-content: space-between;
+            gap: 8px;
+            padding: 3px 8px;
+            cursor: pointer;
+        }
+        .mention-item .model-meta {
+            margin-top: 0;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        .mention-item.selected {
+            background-color: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
         .send-button {
             padding: 8px 16px;
             background-color: var(--vscode-button-background);
@@ -1803,6 +3569,368 @@ And more text here.`;
         .send-button:hover {
             background-color: var(--vscode-button-hoverBackground);
         }
+        .stop-button {
+            display: none;
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+        .stop-button:hover {
+            background-color: var(--vscode-button-secondaryHoverBackground);
+        }
+        .view-tabs {
+            display: flex;
+            gap: 4px;
+            margin-bottom: 12px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .view-tab {
+            padding: 6px 12px;
+            background: none;
+            color: var(--vscode-foreground);
+            border: none;
+            border-bottom: 2px solid transparent;
+            cursor: pointer;
+        }
+        .view-tab.active {
+            border-bottom-color: var(--vscode-focusBorder);
+            font-weight: bold;
+        }
+        .models-view {
+            display: none;
+            flex-direction: column;
+            gap: 8px;
+        }
+        .sessions-view, .checkpoints-view {
+            display: none;
+            flex-direction: column;
+            gap: 8px;
+        }
+        .checkpoint-files {
+            margin-top: 4px;
+            font-size: 0.85em;
+            word-break: break-all;
+        }
+        .session-item {
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 6px;
+            padding: 8px 12px;
+        }
+        .session-item.active {
+            border-color: var(--vscode-focusBorder);
+        }
+        .session-title {
+            font-weight: bold;
+            cursor: pointer;
+        }
+        .session-title:hover {
+            color: var(--vscode-textLink-foreground);
+        }
+        .pull-row {
+            display: flex;
+            gap: 8px;
+        }
+        .pull-row input {
+            flex: 1;
+            padding: 6px;
+            border: 1px solid var(--vscode-input-border);
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border-radius: 4px;
+        }
+        .pull-progress {
+            font-size: 0.85em;
+            margin-bottom: 6px;
+        }
+        .progress-bar {
+            height: 6px;
+            margin-top: 4px;
+            background-color: color-mix(in srgb, var(--vscode-progressBar-background) 30%, transparent);
+            border-radius: 3px;
+            overflow: hidden;
+        }
+        .progress-bar-fill {
+            height: 100%;
+            width: 0;
+            background-color: var(--vscode-progressBar-background);
+        }
+        .model-card {
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 6px;
+            padding: 8px 12px;
+        }
+        .model-card-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            gap: 8px;
+        }
+        .model-name {
+            font-weight: bold;
+            word-break: break-all;
+        }
+        .model-meta {
+            font-size: 0.85em;
+            color: var(--vscode-descriptionForeground);
+            margin-top: 4px;
+        }
+        .model-badge {
+            font-size: 0.8em;
+            padding: 1px 6px;
+            border-radius: 8px;
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+            white-space: nowrap;
+        }
+        .model-actions {
+            display: flex;
+            gap: 6px;
+            margin-top: 6px;
+        }
+        .model-actions button {
+            font-size: 0.85em;
+            padding: 2px 8px;
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            border-radius: 3px;
+            cursor: pointer;
+        }
+        .model-details {
+            font-size: 0.85em;
+            margin-top: 6px;
+            white-space: pre-wrap;
+        }
+        .tool-result {
+            margin: 8px 20px 8px 0;
+            padding: 6px 10px;
+            border-left: 3px solid var(--vscode-textLink-foreground);
+            background-color: var(--vscode-textBlockQuote-background);
+            font-size: 0.9em;
+        }
+        .tool-result.failed {
+            border-left-color: var(--vscode-errorForeground);
+        }
+        .tool-result pre {
+            max-height: 200px;
+            overflow: auto;
+            white-space: pre-wrap;
+        }
+        .agent-panel {
+            display: none;
+            margin-bottom: 8px;
+            padding: 6px 8px;
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+            font-size: 0.9em;
+        }
+        .agent-panel.active {
+            display: block;
+        }
+        .agent-header {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            font-weight: 600;
+        }
+        .agent-header span {
+            flex: 1;
+        }
+        .agent-panel button {
+            padding: 1px 8px;
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            border-radius: 3px;
+            cursor: pointer;
+        }
+        .agent-panel button.primary {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+        .agent-steps {
+            max-height: 180px;
+            overflow-y: auto;
+            margin-top: 4px;
+        }
+        .agent-step {
+            padding: 3px 0 3px 8px;
+            border-left: 3px solid var(--vscode-panel-border);
+            margin-top: 3px;
+        }
+        .agent-step.running, .agent-step.pending {
+            border-left-color: var(--vscode-progressBar-background);
+        }
+        .agent-step.done {
+            border-left-color: var(--vscode-testing-iconPassed, var(--vscode-textLink-foreground));
+        }
+        .agent-step.failed, .agent-step.rejected {
+            border-left-color: var(--vscode-errorForeground);
+        }
+        .agent-step-output {
+            color: var(--vscode-descriptionForeground);
+            white-space: pre-wrap;
+            max-height: 3.6em;
+            overflow: hidden;
+        }
+        .agent-step-actions {
+            display: flex;
+            gap: 6px;
+            margin-top: 3px;
+        }
+        .error-action {
+            margin-top: 6px;
+            padding: 2px 8px;
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            border-radius: 3px;
+            cursor: pointer;
+        }
+        .message-toolbar {
+            display: flex;
+            align-items: center;
+            justify-content: flex-end;
+            gap: 4px;
+            margin-top: 4px;
+            font-size: 0.8em;
+            color: var(--vscode-descriptionForeground);
+        }
+        .message-toolbar button {
+            padding: 0 6px;
+            background: none;
+            color: var(--vscode-descriptionForeground);
+            border: none;
+            cursor: pointer;
+        }
+        .message-toolbar button:hover:not(:disabled) {
+            color: var(--vscode-textLink-foreground);
+        }
+        .message-toolbar button:disabled {
+            opacity: 0.4;
+            cursor: default;
+        }
+        .context-notice {
+            margin: 6px 0;
+            font-size: 0.85em;
+            font-style: italic;
+            color: var(--vscode-editorWarning-foreground);
+        }
+        .conversation-summary {
+            margin: 8px 0;
+            padding: 6px 10px;
+            border-left: 3px solid var(--vscode-descriptionForeground);
+            font-size: 0.9em;
+            color: var(--vscode-descriptionForeground);
+        }
+        .message-metrics {
+            margin-top: 8px;
+            font-size: 0.8em;
+            color: var(--vscode-descriptionForeground);
+        }
+        .compare-options {
+            margin-top: 8px;
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            font-size: 0.9em;
+        }
+        .compare-options select {
+            flex: 1;
+            min-width: 0;
+        }
+        .compare-container {
+            display: flex;
+            gap: 8px;
+            margin: 8px 0;
+        }
+        .compare-column {
+            flex: 1;
+            min-width: 0;
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+            padding: 8px;
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 6px;
+        }
+        .compare-model {
+            font-weight: bold;
+            word-break: break-all;
+        }
+        .compare-body {
+            flex: 1;
+            font-size: 0.9em;
+            overflow-wrap: anywhere;
+        }
+        .plan-card {
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+        }
+        .plan-summary {
+            font-weight: 600;
+        }
+        .plan-step {
+            display: flex;
+            flex-direction: column;
+            gap: 3px;
+            padding: 4px 0 4px 8px;
+            border-left: 3px solid var(--vscode-panel-border);
+        }
+        .plan-step.running {
+            border-left-color: var(--vscode-progressBar-background);
+        }
+        .plan-step.done {
+            border-left-color: var(--vscode-testing-iconPassed, var(--vscode-textLink-foreground));
+        }
+        .plan-step.failed {
+            border-left-color: var(--vscode-errorForeground);
+        }
+        .plan-step.skipped {
+            opacity: 0.6;
+        }
+        .plan-step-header {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+        }
+        .plan-step input[type="text"], .plan-step textarea {
+            width: 100%;
+            box-sizing: border-box;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+            font-family: inherit;
+            font-size: 0.9em;
+        }
+        .plan-step-header input[type="text"] {
+            flex: 1;
+            font-weight: 600;
+        }
+        .plan-step-status, .plan-step-detail {
+            font-size: 0.85em;
+            color: var(--vscode-descriptionForeground);
+        }
+        .plan-step.failed .plan-step-detail {
+            color: var(--vscode-errorForeground);
+        }
+        .plan-step-header button {
+            padding: 0 6px;
+            background: none;
+            color: var(--vscode-descriptionForeground);
+            border: none;
+            cursor: pointer;
+        }
+        .plan-actions {
+            display: flex;
+            gap: 6px;
+        }
+        .truncated-notice {
+            margin-top: 8px;
+            font-size: 0.85em;
+            font-style: italic;
+            color: var(--vscode-descriptionForeground);
+        }
         .code-recommendation {
             background-color: var(--vscode-editor-background);
             border: 1px solid var(--vscode-panel-border);
@@ -1882,7 +4010,33 @@ And more text here.`;
     </div>
     <div id="ollamaInstructions" style="display:none; margin-bottom:16px; color: var(--vscode-errorForeground); font-size: 1em;"></div>
     
-    <div class="chat-container">
+    <div class="view-tabs">
+        <button class="view-tab active" data-view="chat">Chat</button>
+        <button class="view-tab" data-view="sessions">History</button>
+        <button class="view-tab" data-view="checkpoints">Checkpoints</button>
+        <button class="view-tab" data-view="models">Models</button>
+    </div>
+    
+    <div class="sessions-view" id="sessionsView">
+        <button id="newSessionButton" class="send-button">New chat</button>
+        <div id="sessionList">No saved chats yet.</div>
+    </div>
+    
+    <div class="checkpoints-view" id="checkpointsView">
+        <div id="checkpointList">No assistant changes yet.</div>
+    </div>
+    
+    <div class="models-view" id="modelsView">
+        <div class="pull-row">
+            <input id="pullInput" type="text" placeholder="Model to pull, e.g. llama3.2:3b" />
+            <select id="pullEndpointSelect" title="Endpoint to pull to" style="display:none"></select>
+            <button id="pullButton" class="send-button">Pull</button>
+        </div>
+        <div id="pullProgressList"></div>
+        <div id="modelList">Loading models...</div>
+    </div>
+    
+    <div class="chat-container" id="chatView">
         <div class="chat-messages" id="chatMessages">
             <div class="message assistant-message">
                 <h2>Welcome to Duvut Assistant!</h2>
@@ -1890,9 +4044,13 @@ And more text here.`;
             </div>
         </div>
         
+        <div id="agentPanel" class="agent-panel"></div>
+        <div id="mentionChips" class="mention-chips"></div>
+        <div id="mentionMenu" class="mention-menu"></div>
         <div class="input-container">
-            <textarea id="chatInput" class="chat-input" placeholder="Ask me anything about code..." rows="4"></textarea>
+            <textarea id="chatInput" class="chat-input" placeholder="Ask me anything about code... (@ to attach context, / for commands)" rows="4"></textarea>
             <button id="sendButton" class="send-button">Send</button>
+            <button id="stopButton" class="send-button stop-button" title="Stop generating">Stop</button>
             <button id="clearButton" class="send-button">Clear</button>
         </div>
         
@@ -1900,39 +4058,270 @@ And more text here.`;
             <label for="modelSelect">Model:</label>
             <select id="modelSelect" style="flex: 1;"></select>
         </div>
+        
+        <div class="compare-options">
+            <label title="Send the next message to up to three models and keep the best answer"><input type="checkbox" id="compareToggle"> Compare with</label>
+            <select id="compareSelect1" disabled></select>
+            <select id="compareSelect2" disabled></select>
+        </div>
+        <div class="compare-options">
+            <label title="Let the assistant propose a plan you can edit and approve before it changes any files"><input type="checkbox" id="planToggle"> Plan before making changes</label>
+        </div>
     </div>
 
     <script>
         try {
             console.log('[Webview DEBUG] Starting webview initialization');
             
-            const vscode = acquireVsCodeApi();
-            const connectionStatus = document.getElementById('connectionStatus');
-            const chatMessages = document.getElementById('chatMessages');
-            const chatInput = document.getElementById('chatInput');
-            const sendButton = document.getElementById('sendButton');
-            const clearButton = document.getElementById('clearButton');
-            const modelSelect = document.getElementById('modelSelect');
+            const vscode = acquireVsCodeApi();
+            const connectionStatus = document.getElementById('connectionStatus');
+            const chatMessages = document.getElementById('chatMessages');
+            const chatInput = document.getElementById('chatInput');
+            const sendButton = document.getElementById('sendButton');
+            const clearButton = document.getElementById('clearButton');
+            const stopButton = document.getElementById('stopButton');
+            const modelSelect = document.getElementById('modelSelect');
+            const mentionChips = document.getElementById('mentionChips');
+            const mentionMenu = document.getElementById('mentionMenu');
+            const compareToggle = document.getElementById('compareToggle');
+            const compareSelects = [document.getElementById('compareSelect1'), document.getElementById('compareSelect2')];
+            const planToggle = document.getElementById('planToggle');
+            const chatView = document.getElementById('chatView');
+            const modelsView = document.getElementById('modelsView');
+            const sessionsView = document.getElementById('sessionsView');
+            const sessionList = document.getElementById('sessionList');
+            const checkpointsView = document.getElementById('checkpointsView');
+            const checkpointList = document.getElementById('checkpointList');
+            const newSessionButton = document.getElementById('newSessionButton');
+            const modelList = document.getElementById('modelList');
+            const pullInput = document.getElementById('pullInput');
+            const pullButton = document.getElementById('pullButton');
+            const pullProgressList = document.getElementById('pullProgressList');
+            const pullEndpointSelect = document.getElementById('pullEndpointSelect');
+            
+            console.log('[Webview DEBUG] Elements found:', {
+                connectionStatus: !!connectionStatus,
+                chatMessages: !!chatMessages,
+                chatInput: !!chatInput,
+                sendButton: !!sendButton,
+                clearButton: !!clearButton,
+                stopButton: !!stopButton,
+                modelSelect: !!modelSelect
+            });
+            
+            let selectedModel = null;
+            let currentStreamingMessage = null;
+            
+            const MENTION_KINDS = [
+                { kind: 'file', detail: 'Contents of a file', needsValue: true },
+                { kind: 'folder', detail: 'Files in a folder', needsValue: true },
+                { kind: 'selection', detail: 'Text selected in the editor' },
+                { kind: 'problems', detail: 'Errors and warnings from the Problems panel' },
+                { kind: 'terminal', detail: 'Recent output of the active terminal' },
+                { kind: 'git-diff', detail: 'Uncommitted Git changes' },
+                { kind: 'symbol', detail: 'Definition of a function, class or variable', needsValue: true }
+            ];
+            let slashCommands = [];
+            let pendingMentions = [];
+            let mentionItems = [];
+            let mentionIndex = 0;
+            let mentionQueryTimer = null;
+            
+            function addMessage(content, isUser = false) {
+                const messageDiv = document.createElement('div');
+                messageDiv.className = isUser ? 'user-message' : 'assistant-message';
+                messageDiv.innerHTML = content.replace(/\\n/g, '<br>');
+                chatMessages.appendChild(messageDiv);
+                chatMessages.scrollTop = chatMessages.scrollHeight;
+                return messageDiv;
+            }
+            
+            function formatDuration(ms) {
+                return ms < 1000 ? Math.round(ms) + 'ms' : (ms / 1000).toFixed(1) + 's';
+            }
+            
+            function renderStatsFooter(stats) {
+                const parts = [];
+                if (stats.promptTokens !== undefined || stats.completionTokens !== undefined) {
+                    parts.push((stats.promptTokens ?? '?') + ' in / ' + (stats.completionTokens ?? '?') + ' out tokens');
+                }
+                if (stats.tokensPerSecond !== undefined) {
+                    parts.push(stats.tokensPerSecond.toFixed(1) + ' tok/s');
+                }
+                if (stats.timeToFirstTokenMs !== undefined) {
+                    parts.push('first token ' + formatDuration(stats.timeToFirstTokenMs));
+                }
+                if (stats.loadDurationMs !== undefined && stats.loadDurationMs > 100) {
+                    parts.push('model load ' + formatDuration(stats.loadDurationMs));
+                }
+                return parts.length > 0
+                    ? '<div class="message-metrics" title="' + escapeHtml(stats.model) + '">' + escapeHtml(parts.join(' · ')) + '</div>'
+                    : '';
+            }
+            
+            function addNotice(text) {
+                const notice = document.createElement('div');
+                notice.className = 'context-notice';
+                notice.textContent = text;
+                if (currentStreamingMessage) {
+                    chatMessages.insertBefore(notice, currentStreamingMessage);
+                } else {
+                    chatMessages.appendChild(notice);
+                }
+                chatMessages.scrollTop = chatMessages.scrollHeight;
+                return notice;
+            }
+            
+            function addContextNotice(message) {
+                const parts = [];
+                if (message.droppedMessages > 0) {
+                    parts.push(message.droppedMessages + ' older message' + (message.droppedMessages === 1 ? '' : 's') + ' left out');
+                }
+                if (message.workspaceContextTruncated) {
+                    parts.push('workspace context shortened');
+                }
+                const notice = addNotice('Context window full (~' + message.estimatedTokens + ' of ' + message.contextLength + ' tokens): ' + parts.join(', '));
+                notice.title = 'The conversation no longer fits the model context. Older messages are not sent to the model.';
+            }
+            
+            function addError(message) {
+                const errorDiv = addMessage('Error: ' + escapeHtml(message.message));
+                if (message.category === 'model_missing') {
+                    const button = document.createElement('button');
+                    button.className = 'error-action';
+                    button.textContent = 'Open Models view';
+                    button.addEventListener('click', () => showView('models'));
+                    errorDiv.appendChild(document.createElement('br'));
+                    errorDiv.appendChild(button);
+                } else if (message.category === 'not_running') {
+                    // Refresh the connection status so the setup instructions are shown
+                    vscode.postMessage({ type: 'checkConnection' });
+                }
+            }
+            
+            function escapeHtml(text) {
+                return String(text)
+                    .replace(/&/g, '&amp;')
+                    .replace(/</g, '&lt;')
+                    .replace(/>/g, '&gt;')
+                    .replace(/"/g, '&quot;');
+            }
+            
+            // Step timeline of the running agent loop, above the input
+            const AGENT_STEP_LABELS = {
+                pending: 'waiting for approval',
+                running: 'running',
+                done: 'done',
+                failed: 'failed',
+                rejected: 'rejected'
+            };
+            const AGENT_END_LABELS = {
+                finished: 'Finished',
+                budget: 'Step budget used up',
+                aborted: 'Aborted',
+                failed: 'Failed'
+            };
+            let agentRun = null;
+            
+            function startAgentRun(message) {
+                const panel = document.getElementById('agentPanel');
+                panel.innerHTML = '<div class="agent-header"><span></span>' +
+                    '<button data-action="pause">Pause</button><button data-action="abort">Abort</button>' +
+                    '<button data-action="close" title="Hide the timeline" style="display:none">×</button></div>' +
+                    '<div class="agent-steps"></div>';
+                panel.classList.add('active');
+                agentRun = { id: message.runId, maxSteps: message.maxSteps, steps: 0, paused: false, ended: false };
+                panel.querySelectorAll('.agent-header button').forEach(button => {
+                    button.addEventListener('click', () => {
+                        const action = button.dataset.action;
+                        if (action === 'close') {
+                            panel.classList.remove('active');
+                        } else if (action === 'pause') {
+                            vscode.postMessage({ type: 'agentControl', runId: message.runId, action: agentRun.paused ? 'resume' : 'pause' });
+                        } else {
+                            vscode.postMessage({ type: 'agentControl', runId: message.runId, action: action });
+                        }
+                    });
+                });
+                renderAgentHeader();
+            }
             
-            console.log('[Webview DEBUG] Elements found:', {
-                connectionStatus: !!connectionStatus,
-                chatMessages: !!chatMessages,
-                chatInput: !!chatInput,
-                sendButton: !!sendButton,
-                clearButton: !!clearButton,
-                modelSelect: !!modelSelect
-            });
+            function renderAgentHeader(endLabel) {
+                const panel = document.getElementById('agentPanel');
+                if (!agentRun) return;
+                const state = endLabel || (agentRun.paused ? 'Paused' : 'Working');
+                panel.querySelector('.agent-header span').textContent =
+                    'Agent · step ' + agentRun.steps + ' of ' + agentRun.maxSteps + ' · ' + state;
+                panel.querySelector('[data-action="pause"]').textContent = agentRun.paused ? 'Resume' : 'Pause';
+                panel.querySelectorAll('[data-action="pause"], [data-action="abort"]').forEach(button => {
+                    button.style.display = agentRun.ended ? 'none' : '';
+                });
+                panel.querySelector('[data-action="close"]').style.display = agentRun.ended ? '' : 'none';
+            }
             
-            let selectedModel = null;
-            let currentStreamingMessage = null;
+            function updateAgentStep(message) {
+                if (!agentRun || agentRun.id !== message.runId) return;
+                const step = message.step;
+                const list = document.querySelector('#agentPanel .agent-steps');
+                let row = list.querySelector('[data-step-id="' + step.id + '"]');
+                if (!row) {
+                    row = document.createElement('div');
+                    row.dataset.stepId = step.id;
+                    list.appendChild(row);
+                }
+                agentRun.steps = Math.max(agentRun.steps, step.index);
+                const args = Object.keys(step.args || {})
+                    .map(key => key + '=' + JSON.stringify(step.args[key]))
+                    .join(', ');
+                row.className = 'agent-step ' + step.status;
+                row.innerHTML = '<div>' + step.index + '. <code>' + escapeHtml(step.tool) + '(' + escapeHtml(args) + ')</code> · ' +
+                    escapeHtml(AGENT_STEP_LABELS[step.status] || step.status) + '</div>' +
+                    (step.output ? '<div class="agent-step-output">' + escapeHtml(step.output) + '</div>' : '');
+                if (step.status === 'pending') {
+                    const actions = document.createElement('div');
+                    actions.className = 'agent-step-actions';
+                    [['Approve', true], ['Reject', false]].forEach(([label, approved]) => {
+                        const button = document.createElement('button');
+                        button.textContent = label;
+                        if (approved) button.className = 'primary';
+                        button.addEventListener('click', () => {
+                            actions.remove();
+                            vscode.postMessage({ type: 'agentApproval', runId: message.runId, stepId: step.id, approved: approved });
+                        });
+                        actions.appendChild(button);
+                    });
+                    row.appendChild(actions);
+                }
+                list.scrollTop = list.scrollHeight;
+                renderAgentHeader();
+            }
             
-            function addMessage(content, isUser = false) {
-                const messageDiv = document.createElement('div');
-                messageDiv.className = isUser ? 'user-message' : 'assistant-message';
-                messageDiv.innerHTML = content.replace(/\\n/g, '<br>');
-                chatMessages.appendChild(messageDiv);
+            function setAgentPaused(message) {
+                if (!agentRun || agentRun.id !== message.runId) return;
+                agentRun.paused = message.paused;
+                renderAgentHeader();
+            }
+            
+            function endAgentRun(message) {
+                if (!agentRun || agentRun.id !== message.runId) return;
+                agentRun.ended = true;
+                agentRun.paused = false;
+                document.querySelectorAll('#agentPanel .agent-step-actions').forEach(actions => actions.remove());
+                renderAgentHeader(AGENT_END_LABELS[message.reason] || message.reason);
+            }
+            
+            function addToolResult(message) {
+                const resultDiv = document.createElement('div');
+                resultDiv.className = 'tool-result' + (message.success ? '' : ' failed');
+                const args = Object.keys(message.args || {})
+                    .filter(key => key !== 'content')
+                    .map(key => key + '=' + JSON.stringify(message.args[key]))
+                    .join(', ');
+                resultDiv.innerHTML = '<details><summary>' + (message.success ? '🔧 ' : '⚠️ ') +
+                    escapeHtml(message.name) + '(' + escapeHtml(args) + ')</summary>' +
+                    '<pre>' + escapeHtml(message.output) + '</pre></details>';
+                chatMessages.appendChild(resultDiv);
                 chatMessages.scrollTop = chatMessages.scrollHeight;
-                return messageDiv;
             }
             
             function startStreamingMessage() {
@@ -1942,9 +4331,14 @@ And more text here.`;
                 chatMessages.appendChild(messageDiv);
                 chatMessages.scrollTop = chatMessages.scrollHeight;
                 currentStreamingMessage = messageDiv;
+                setStreaming(true);
                 return messageDiv;
             }
             
+            function setStreaming(isStreaming) {
+                stopButton.style.display = isStreaming ? 'inline-block' : 'none';
+            }
+            
             function updateStreamingMessage(content) {
                 if (currentStreamingMessage) {
                     currentStreamingMessage.innerHTML += content.replace(/\\n/g, '<br>');
@@ -1954,6 +4348,7 @@ And more text here.`;
             
             function finalizeStreamingMessage() {
                 currentStreamingMessage = null;
+                setStreaming(false);
             }
             
             function addCodeRecommendation(message, recommendations, requestId) {
@@ -2018,7 +4413,15 @@ And more text here.`;
             
             function attachApplyButtonListeners(container) {
                 console.log('[Webview DEBUG] Attaching event listeners to apply buttons in container');
-                const applyButtons = container.querySelectorAll('.inline-apply-button');
+                container.querySelectorAll('.review-changes-button').forEach(button => {
+                    button.addEventListener('click', () => {
+                        vscode.postMessage({ type: 'reviewChangeSet', requestId: button.getAttribute('data-request-id') });
+                        button.disabled = true;
+                        button.textContent = 'Reviewing…';
+                    });
+                });
+                
+                const applyButtons = container.querySelectorAll('.inline-apply-button:not(.review-changes-button)');
                 console.log('[Webview DEBUG] Found', applyButtons.length, 'apply buttons');
                 
                 applyButtons.forEach(button => {
@@ -2038,14 +4441,39 @@ And more text here.`;
                             filePath: filePath
                         });
                         
-                        // Disable the button to prevent multiple clicks
+                        // Disabled until the diff preview is accepted or rejected
                         button.disabled = true;
-                        button.textContent = 'Applied';
-                        button.style.background = 'var(--vscode-button-secondaryBackground)';
+                        button.textContent = 'Reviewing…';
                     });
                 });
             }
             
+            const CODE_CHANGE_LABELS = {
+                applied: 'Applied',
+                rejected: 'Apply',
+                unchanged: 'No changes',
+                failed: 'Retry'
+            };
+            
+            function showChangeSetResult(message) {
+                document.querySelectorAll('.review-changes-button').forEach(button => {
+                    if (button.getAttribute('data-request-id') !== message.requestId) return;
+                    button.textContent = message.status === 'applied' ? 'Review Remaining Changes' : 'Review All Changes';
+                    button.disabled = message.status === 'empty';
+                });
+            }
+            
+            function showCodeChangeResult(message) {
+                document.querySelectorAll('.inline-apply-button:not(.review-changes-button)').forEach(button => {
+                    if (button.getAttribute('data-request-id') !== message.requestId || button.getAttribute('data-file-path') !== message.filePath) return;
+                    button.textContent = CODE_CHANGE_LABELS[message.status] || message.status;
+                    button.disabled = message.status === 'applied' || message.status === 'unchanged';
+                    if (button.disabled) {
+                        button.style.background = 'var(--vscode-button-secondaryBackground)';
+                    }
+                });
+            }
+            
             function insertInlineCodePrompt(promptHtml, requestId, codeBlock) {
                 console.log('[Webview DEBUG] Inserting inline code prompt for:', codeBlock.filePath);
                 console.log('[Webview DEBUG] Prompt HTML:', promptHtml);
@@ -2067,30 +4495,717 @@ And more text here.`;
             
 
             
+            function showView(view) {
+                chatView.style.display = view === 'chat' ? 'flex' : 'none';
+                modelsView.style.display = view === 'models' ? 'flex' : 'none';
+                sessionsView.style.display = view === 'sessions' ? 'flex' : 'none';
+                checkpointsView.style.display = view === 'checkpoints' ? 'flex' : 'none';
+                document.querySelectorAll('.view-tab').forEach(tab => {
+                    tab.classList.toggle('active', tab.getAttribute('data-view') === view);
+                });
+                if (view === 'models') {
+                    vscode.postMessage({ type: 'getModelList' });
+                } else if (view === 'sessions') {
+                    vscode.postMessage({ type: 'listSessions' });
+                } else if (view === 'checkpoints') {
+                    vscode.postMessage({ type: 'listCheckpoints' });
+                }
+            }
+            
+            function renderSessionList(sessions, activeId) {
+                if (!sessions.length) {
+                    sessionList.textContent = 'No saved chats yet.';
+                    return;
+                }
+                sessionList.innerHTML = '';
+                sessions.forEach(session => {
+                    const item = document.createElement('div');
+                    item.className = 'session-item' + (session.id === activeId ? ' active' : '');
+                    item.innerHTML = '<div class="session-title">' + escapeHtml(session.title) + '</div>' +
+                        '<div class="model-meta">' + escapeHtml(new Date(session.updatedAt).toLocaleString()) + ' · ' + session.messageCount + ' messages</div>' +
+                        '<div class="model-actions">' +
+                        '<button data-action="renameSession">Rename</button>' +
+                        '<button data-action="exportSession">Export</button>' +
+                        '<button data-action="deleteSession">Delete</button>' +
+                        '</div>';
+                    item.querySelector('.session-title').addEventListener('click', () => {
+                        vscode.postMessage({ type: 'openSession', id: session.id });
+                        showView('chat');
+                    });
+                    item.querySelectorAll('.model-actions button').forEach(button => {
+                        button.addEventListener('click', () => {
+                            vscode.postMessage({ type: button.getAttribute('data-action'), id: session.id });
+                        });
+                    });
+                    sessionList.appendChild(item);
+                });
+            }
+            
+            // Files as they were before each request that changed them, newest first
+            function renderCheckpointList(checkpoints) {
+                if (!checkpoints.length) {
+                    checkpointList.textContent = 'No assistant changes yet.';
+                    return;
+                }
+                checkpointList.innerHTML = '';
+                checkpoints.forEach((checkpoint, index) => {
+                    const item = document.createElement('div');
+                    item.className = 'session-item';
+                    item.innerHTML = '<div class="session-title"></div>' +
+                        '<div class="model-meta">' + escapeHtml(new Date(checkpoint.createdAt).toLocaleString()) + ' · ' +
+                        checkpoint.files.length + ' file' + (checkpoint.files.length === 1 ? '' : 's') + '</div>' +
+                        '<div class="checkpoint-files">' + checkpoint.files
+                            .map(file => escapeHtml(file.path) + (file.created ? ' (new)' : ''))
+                            .join('<br>') + '</div>' +
+                        '<div class="model-actions"><button></button></div>';
+                    item.querySelector('.session-title').textContent = checkpoint.label;
+                    const restore = item.querySelector('.model-actions button');
+                    restore.textContent = index === 0 ? 'Undo this change' : 'Restore to before this';
+                    restore.title = index === 0
+                        ? 'Put the files back as they were before this request'
+                        : 'Put the files back as they were before this request, undoing the later changes too';
+                    restore.addEventListener('click', () => {
+                        vscode.postMessage({ type: 'restoreCheckpoint', id: checkpoint.id });
+                    });
+                    checkpointList.appendChild(item);
+                });
+            }
+            
+            function loadSession(message) {
+                finalizeStreamingMessage();
+                chatMessages.innerHTML = '';
+                if (!message.messages.length) {
+                    addMessage('New chat started. How can I help you?');
+                    return;
+                }
+                message.messages.forEach(m => {
+                    if (m.archiveId) {
+                        addSummary(m);
+                    } else if (m.role === 'user') {
+                        const userDiv = addMessage(escapeHtml(m.content), true);
+                        addMentionLabels(userDiv, m.mentions);
+                        decorateMessage(userDiv, m);
+                    } else if (m.role === 'tool') {
+                        addToolResult({ name: m.toolName || 'tool', args: {}, success: true, output: m.content });
+                    } else {
+                        decorateMessage(addMessage(m.truncated
+                            ? m.content + '<div class="truncated-notice">Generation stopped - this answer is incomplete.</div>'
+                            : m.content), m);
+                    }
+                });
+            }
+            
+            // Summary that replaced older messages, with a link to the archived originals
+            function addSummary(m) {
+                const summaryDiv = document.createElement('div');
+                summaryDiv.className = 'conversation-summary';
+                summaryDiv.innerHTML = '<details><summary>Earlier messages were summarised to save context</summary>' +
+                    '<div>' + escapeHtml(m.content).replace(/\\n/g, '<br>') + '</div></details>';
+                const view = document.createElement('button');
+                view.className = 'error-action';
+                view.textContent = 'View archived messages';
+                view.addEventListener('click', () => vscode.postMessage({ type: 'showArchive', id: m.archiveId }));
+                summaryDiv.appendChild(view);
+                chatMessages.appendChild(summaryDiv);
+            }
+            
+            // Branch navigation for messages with alternatives, and Edit for user messages
+            function decorateMessage(messageDiv, m) {
+                messageDiv.setAttribute('data-message-id', m.id);
+                const toolbar = document.createElement('div');
+                toolbar.className = 'message-toolbar';
+                if (m.siblings) {
+                    const previous = document.createElement('button');
+                    previous.textContent = '‹';
+                    previous.title = 'Previous version';
+                    previous.disabled = m.siblings.index <= 1;
+                    previous.addEventListener('click', () => vscode.postMessage({ type: 'switchBranch', id: m.id, offset: -1 }));
+                    const position = document.createElement('span');
+                    position.textContent = m.siblings.index + ' / ' + m.siblings.count;
+                    const next = document.createElement('button');
+                    next.textContent = '›';
+                    next.title = 'Next version';
+                    next.disabled = m.siblings.index >= m.siblings.count;
+                    next.addEventListener('click', () => vscode.postMessage({ type: 'switchBranch', id: m.id, offset: 1 }));
+                    toolbar.append(previous, position, next);
+                }
+                if (m.role === 'assistant') {
+                    if (m.model) {
+                        const label = document.createElement('span');
+                        label.textContent = m.model;
+                        toolbar.appendChild(label);
+                    }
+                    const regenerate = document.createElement('button');
+                    regenerate.textContent = 'Regenerate';
+                    regenerate.title = 'Answer again with the selected model - this reply is kept as another version';
+                    regenerate.addEventListener('click', () => vscode.postMessage({ type: 'regenerate', id: m.id, model: selectedModel }));
+                    toolbar.appendChild(regenerate);
+                }
+                if (m.role === 'user') {
+                    const edit = document.createElement('button');
+                    edit.textContent = 'Edit';
+                    edit.title = 'Edit and resend - the current reply is kept as another version';
+                    edit.addEventListener('click', () => startEditing(messageDiv, m));
+                    toolbar.appendChild(edit);
+                }
+                if (toolbar.childElementCount > 0) {
+                    messageDiv.appendChild(toolbar);
+                }
+            }
+            
+            function startEditing(messageDiv, m) {
+                messageDiv.querySelector('.message-toolbar').remove();
+                const original = messageDiv.innerHTML;
+                messageDiv.innerHTML = '';
+                const editor = document.createElement('textarea');
+                editor.className = 'chat-input';
+                editor.rows = 4;
+                editor.value = m.content;
+                const save = document.createElement('button');
+                save.className = 'send-button';
+                save.textContent = 'Save & Resend';
+                save.addEventListener('click', () => {
+                    const content = editor.value.trim();
+                    if (content) {
+                        vscode.postMessage({ type: 'editMessage', id: m.id, content: content, model: selectedModel });
+                    }
+                });
+                const cancel = document.createElement('button');
+                cancel.className = 'send-button';
+                cancel.textContent = 'Cancel';
+                cancel.addEventListener('click', () => {
+                    messageDiv.innerHTML = original;
+                    decorateMessage(messageDiv, m);
+                });
+                messageDiv.append(editor, save, cancel);
+                editor.focus();
+            }
+            
+            function formatBytes(bytes) {
+                if (!bytes) return '0 B';
+                const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+                const exponent = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+                return (bytes / Math.pow(1024, exponent)).toFixed(exponent === 0 ? 0 : 1) + ' ' + units[exponent];
+            }
+            
+            function renderModelList(models, error, endpoints, showEndpoint) {
+                if (endpoints) {
+                    const current = pullEndpointSelect.value;
+                    pullEndpointSelect.innerHTML = '';
+                    endpoints.forEach(name => {
+                        const option = document.createElement('option');
+                        option.value = name;
+                        option.textContent = name;
+                        pullEndpointSelect.appendChild(option);
+                    });
+                    if (endpoints.includes(current)) {
+                        pullEndpointSelect.value = current;
+                    }
+                    pullEndpointSelect.style.display = endpoints.length > 1 ? 'inline-block' : 'none';
+                }
+                if (error && !models.length) {
+                    modelList.textContent = 'Error: ' + error;
+                    return;
+                }
+                if (!models.length) {
+                    modelList.textContent = 'No models installed. Pull one above to get started.';
+                    return;
+                }
+                modelList.innerHTML = '';
+                models.forEach(model => {
+                    const card = document.createElement('div');
+                    card.className = 'model-card';
+                    const meta = [
+                        showEndpoint ? '@' + model.endpoint : '',
+                        formatBytes(model.size),
+                        model.parameterSize,
+                        model.quantization,
+                        model.family
+                    ].filter(Boolean).map(escapeHtml).join(' · ');
+                    const badge = model.loaded
+                        ? '<span class="model-badge" title="Unloads ' + escapeHtml(model.expiresAt || '') + '">Loaded · ' + formatBytes(model.sizeVram) + ' VRAM</span>'
+                        : '';
+                    const actions = model.manageable
+                        ? '<div class="model-actions">' +
+                          '<button data-action="getModelDetails">Details</button>' +
+                          '<button data-action="copyModel">Copy</button>' +
+                          '<button data-action="deleteModel">Delete</button>' +
+                          '</div>'
+                        : '';
+                    card.innerHTML = '<div class="model-card-header"><span class="model-name">' + escapeHtml(model.name) + '</span>' + badge + '</div>' +
+                        '<div class="model-meta">' + meta + '</div>' +
+                        actions +
+                        '<div class="model-details" style="display:none"></div>';
+                    card.querySelectorAll('.model-actions button').forEach(button => {
+                        button.addEventListener('click', () => {
+                            vscode.postMessage({ type: button.getAttribute('data-action'), name: model.name, endpoint: model.endpoint });
+                        });
+                    });
+                    card.setAttribute('data-model', model.name);
+                    card.setAttribute('data-endpoint', model.endpoint);
+                    modelList.appendChild(card);
+                });
+                if (error) {
+                    const errorDiv = document.createElement('div');
+                    errorDiv.className = 'model-meta';
+                    errorDiv.textContent = 'Some endpoints could not be queried: ' + error;
+                    modelList.appendChild(errorDiv);
+                }
+            }
+            
+            function renderModelDetails(message) {
+                const card = Array.from(modelList.querySelectorAll('.model-card'))
+                    .find(c => c.getAttribute('data-model') === message.name &&
+                        (!message.endpoint || c.getAttribute('data-endpoint') === message.endpoint));
+                if (!card) return;
+                const detailsDiv = card.querySelector('.model-details');
+                if (message.error) {
+                    detailsDiv.textContent = 'Error: ' + message.error;
+                } else {
+                    const d = message.details;
+                    const lines = [
+                        d.parameterCount ? 'Parameters: ' + Number(d.parameterCount).toLocaleString() : '',
+                        d.contextLength ? 'Context length: ' + d.contextLength : '',
+                        d.format ? 'Format: ' + d.format : '',
+                        d.capabilities.length ? 'Capabilities: ' + d.capabilities.join(', ') : '',
+                        d.parameters ? 'Modelfile parameters:\\n' + d.parameters : ''
+                    ].filter(Boolean);
+                    detailsDiv.textContent = lines.join('\\n');
+                }
+                detailsDiv.style.display = detailsDiv.style.display === 'none' ? 'block' : 'none';
+            }
+            
+            function updatePullProgress(message) {
+                const id = 'pull-' + ((message.endpoint || '') + '-' + message.name).replace(/[^a-zA-Z0-9_-]/g, '_');
+                let row = document.getElementById(id);
+                if (!row) {
+                    row = document.createElement('div');
+                    row.id = id;
+                    row.className = 'pull-progress';
+                    row.innerHTML = '<div><span class="pull-label"></span> <button class="pull-cancel">Cancel</button></div>' +
+                        '<div class="progress-bar"><div class="progress-bar-fill"></div></div>';
+                    row.querySelector('.pull-cancel').addEventListener('click', () => {
+                        vscode.postMessage({ type: 'cancelPull', name: message.name, endpoint: message.endpoint });
+                    });
+                    pullProgressList.appendChild(row);
+                }
+                const label = row.querySelector('.pull-label');
+                const fill = row.querySelector('.progress-bar-fill');
+                if (message.error) {
+                    label.textContent = message.name + ': ' + message.error;
+                } else if (message.total) {
+                    const percent = Math.round((message.completed || 0) / message.total * 100);
+                    label.textContent = message.name + ': ' + message.status + ' ' + percent + '% (' + formatBytes(message.completed) + ' / ' + formatBytes(message.total) + ')';
+                    fill.style.width = percent + '%';
+                } else {
+                    label.textContent = message.name + ': ' + message.status;
+                }
+                if (message.done) {
+                    row.querySelector('.pull-cancel').remove();
+                    if (!message.error) {
+                        fill.style.width = '100%';
+                        setTimeout(() => row.remove(), 3000);
+                    }
+                }
+            }
+            
             function sendMessage() {
                 const content = chatInput.value.trim();
                 if (content) {
-                    vscode.postMessage({
-                        type: 'sendMessage',
-                        content: content,
-                        model: selectedModel
-                    });
+                    const models = getCompareModels();
+                    if (planToggle.checked) {
+                        vscode.postMessage({ type: 'planMessage', content: content, model: selectedModel, mentions: pendingMentions });
+                        planToggle.checked = false;
+                    } else if (models.length > 1) {
+                        vscode.postMessage({ type: 'compareMessage', content: content, models: models, mentions: pendingMentions });
+                    } else {
+                        vscode.postMessage({
+                            type: 'sendMessage',
+                            content: content,
+                            model: selectedModel,
+                            mentions: pendingMentions
+                        });
+                    }
                     chatInput.value = '';
+                    pendingMentions = [];
+                    renderMentionChips();
+                    hideMentionMenu();
+                }
+            }
+            
+            // The @-mention being typed at the cursor, if any
+            function getMentionToken() {
+                const text = chatInput.value.substring(0, chatInput.selectionStart);
+                const match = text.match(/(^|\\s)(@([\\w-]*)(?::(\\S*))?)$/);
+                return match ? { kind: match[3], value: match[4], start: text.length - match[2].length } : null;
+            }
+            
+            function updateMentionMenu() {
+                const slash = chatInput.value.substring(0, chatInput.selectionStart).match(/^\\/([\\w-]*)$/);
+                if (slash) {
+                    showMentionItems(slashCommands
+                        .filter(c => c.name.startsWith(slash[1]))
+                        .map(c => ({ command: c.name, label: '/' + c.name, detail: c.description })));
+                    return;
+                }
+                const token = getMentionToken();
+                clearTimeout(mentionQueryTimer);
+                if (!token) {
+                    hideMentionMenu();
+                } else if (token.value === undefined) {
+                    showMentionItems(MENTION_KINDS
+                        .filter(k => k.kind.startsWith(token.kind))
+                        .map(k => ({ kind: k.kind, label: '@' + k.kind, detail: k.detail, needsValue: k.needsValue })));
+                } else if (MENTION_KINDS.some(k => k.kind === token.kind && k.needsValue)) {
+                    mentionQueryTimer = setTimeout(() => {
+                        vscode.postMessage({ type: 'getMentionSuggestions', kind: token.kind, query: token.value });
+                    }, 150);
+                } else {
+                    hideMentionMenu();
+                }
+            }
+            
+            function showMentionItems(items) {
+                mentionItems = items;
+                mentionIndex = 0;
+                if (!items.length) {
+                    hideMentionMenu();
+                    return;
+                }
+                mentionMenu.innerHTML = '';
+                items.forEach((item, index) => {
+                    const row = document.createElement('div');
+                    row.className = 'mention-item' + (index === mentionIndex ? ' selected' : '');
+                    row.innerHTML = '<span>' + escapeHtml(item.label) + '</span>' +
+                        (item.detail ? '<span class="model-meta">' + escapeHtml(item.detail) + '</span>' : '');
+                    // mousedown keeps the focus in the input
+                    row.addEventListener('mousedown', (e) => {
+                        e.preventDefault();
+                        pickMention(item);
+                    });
+                    mentionMenu.appendChild(row);
+                });
+                mentionMenu.style.display = 'block';
+            }
+            
+            function hideMentionMenu() {
+                mentionItems = [];
+                mentionMenu.style.display = 'none';
+            }
+            
+            function highlightMention(offset) {
+                mentionIndex = (mentionIndex + offset + mentionItems.length) % mentionItems.length;
+                Array.from(mentionMenu.children).forEach((row, index) => {
+                    row.classList.toggle('selected', index === mentionIndex);
+                    if (index === mentionIndex) row.scrollIntoView({ block: 'nearest' });
+                });
+            }
+            
+            // A kind that needs a value is completed to "@kind:"; anything else becomes a chip
+            function pickMention(item) {
+                if (item.command) {
+                    const rest = chatInput.value.substring(chatInput.selectionStart).trimStart();
+                    chatInput.value = '/' + item.command + ' ' + rest;
+                    chatInput.setSelectionRange(item.command.length + 2, item.command.length + 2);
+                    hideMentionMenu();
+                    return;
+                }
+                const token = getMentionToken();
+                if (!token) return;
+                const before = chatInput.value.substring(0, token.start);
+                const after = chatInput.value.substring(chatInput.selectionStart);
+                if (item.needsValue) {
+                    chatInput.value = before + '@' + item.kind + ':' + after;
+                    const caret = before.length + item.kind.length + 2;
+                    chatInput.setSelectionRange(caret, caret);
+                    updateMentionMenu();
+                    return;
+                }
+                chatInput.value = before + after;
+                chatInput.setSelectionRange(before.length, before.length);
+                addMentionChip({ kind: item.kind, value: item.value });
+                hideMentionMenu();
+            }
+            
+            function mentionLabel(mention) {
+                return '@' + mention.kind + (mention.value ? ':' + mention.value : '');
+            }
+            
+            function addMentionChip(mention) {
+                if (!pendingMentions.some(m => mentionLabel(m) === mentionLabel(mention))) {
+                    pendingMentions.push(mention);
+                    renderMentionChips();
+                }
+            }
+            
+            function renderMentionChips() {
+                mentionChips.innerHTML = '';
+                pendingMentions.forEach((mention, index) => {
+                    const chip = document.createElement('span');
+                    chip.className = 'mention-chip';
+                    chip.textContent = mentionLabel(mention);
+                    const remove = document.createElement('button');
+                    remove.textContent = '×';
+                    remove.title = 'Remove';
+                    remove.addEventListener('click', () => {
+                        pendingMentions.splice(index, 1);
+                        renderMentionChips();
+                    });
+                    chip.appendChild(remove);
+                    mentionChips.appendChild(chip);
+                });
+            }
+            
+            // Read-only chips for the context attached to a sent message
+            function addMentionLabels(messageDiv, labels) {
+                if (!labels || !labels.length) return;
+                const chips = document.createElement('div');
+                chips.className = 'mention-chips';
+                labels.forEach(label => {
+                    const chip = document.createElement('span');
+                    chip.className = 'mention-chip';
+                    chip.textContent = label;
+                    chips.appendChild(chip);
+                });
+                messageDiv.insertBefore(chips, messageDiv.firstChild);
+            }
+            
+            // The selected model plus the distinct models picked for comparison
+            function getCompareModels() {
+                if (!compareToggle.checked) return [];
+                const models = [selectedModel].concat(compareSelects.map(select => select.value)).filter(model => model);
+                return models.filter((model, index) => models.indexOf(model) === index);
+            }
+            
+            function renderCompareSelects(models) {
+                compareSelects.forEach(select => {
+                    const current = select.value;
+                    select.innerHTML = '<option value="">-</option>';
+                    models.forEach(model => {
+                        const option = document.createElement('option');
+                        option.value = model;
+                        option.textContent = model;
+                        select.appendChild(option);
+                    });
+                    select.value = models.includes(current) ? current : '';
+                });
+            }
+            
+            function startComparison(message) {
+                const container = document.createElement('div');
+                container.className = 'compare-container';
+                container.setAttribute('data-compare-id', message.compareId);
+                message.models.forEach((model, index) => {
+                    const column = document.createElement('div');
+                    column.className = 'compare-column';
+                    column.innerHTML = '<div class="compare-model">' + escapeHtml(model) + '</div>' +
+                        '<div class="compare-body"></div><div class="compare-footer"></div>';
+                    const keep = document.createElement('button');
+                    keep.className = 'send-button';
+                    keep.textContent = 'Keep this answer';
+                    keep.disabled = true;
+                    keep.addEventListener('click', () => {
+                        vscode.postMessage({ type: 'keepCompareAnswer', compareId: message.compareId, index: index });
+                    });
+                    column.appendChild(keep);
+                    container.appendChild(column);
+                });
+                chatMessages.appendChild(container);
+                chatMessages.scrollTop = chatMessages.scrollHeight;
+                setStreaming(true);
+            }
+            
+            function getCompareColumn(message) {
+                const container = chatMessages.querySelector('.compare-container[data-compare-id="' + message.compareId + '"]');
+                return container ? container.children[message.index] : null;
+            }
+            
+            function updateComparison(message) {
+                const column = getCompareColumn(message);
+                if (column) {
+                    column.querySelector('.compare-body').innerHTML += escapeHtml(message.content).replace(/\\n/g, '<br>');
+                    chatMessages.scrollTop = chatMessages.scrollHeight;
+                }
+            }
+            
+            function finishComparisonColumn(message) {
+                const column = getCompareColumn(message);
+                if (!column) return;
+                const footer = column.querySelector('.compare-footer');
+                if (message.error) {
+                    footer.textContent = 'Error: ' + message.error;
+                } else {
+                    footer.innerHTML = (message.truncated ? '<div class="truncated-notice">Generation stopped - this answer is incomplete.</div>' : '') +
+                        (message.stats ? renderStatsFooter(message.stats) : '');
+                }
+                column.querySelector('button').disabled = !column.querySelector('.compare-body').textContent;
+            }
+            
+            // Editable checklist of a task plan; the steps are read back from the inputs when it runs
+            const PLAN_STEP_LABELS = {
+                pending: '',
+                running: 'running…',
+                done: '✓ done',
+                failed: '✗ failed',
+                skipped: 'skipped'
+            };
+            
+            function showPlan(message) {
+                const card = document.createElement('div');
+                card.className = 'plan-card';
+                card.dataset.planId = message.plan.id;
+                card.innerHTML = '<div class="plan-summary"></div><div class="plan-steps"></div>' +
+                    '<div class="plan-actions"><button class="send-button" data-action="run">Run plan</button>' +
+                    '<button class="send-button" data-action="add">Add step</button>' +
+                    '<button class="send-button" data-action="discard">Discard</button></div>';
+                card.querySelector('.plan-summary').textContent = 'Plan: ' + (message.plan.summary || message.plan.request);
+                const list = card.querySelector('.plan-steps');
+                message.plan.steps.forEach(step => list.appendChild(createPlanStep(step)));
+                card.querySelector('[data-action="add"]').addEventListener('click', () => {
+                    list.appendChild(createPlanStep({ title: '', description: '', files: [], commands: [], enabled: true, status: 'pending' }));
+                });
+                card.querySelector('[data-action="run"]').addEventListener('click', () => {
+                    const steps = Array.from(list.children).map(readPlanStep);
+                    setPlanEditable(card, false);
+                    vscode.postMessage({ type: 'runPlan', planId: message.plan.id, steps: steps, model: selectedModel });
+                });
+                card.querySelector('[data-action="discard"]').addEventListener('click', () => {
+                    vscode.postMessage({ type: 'discardPlan', planId: message.plan.id });
+                    setPlanEditable(card, false);
+                    card.querySelector('.plan-actions').remove();
+                    card.querySelector('.plan-summary').textContent += ' (discarded)';
+                });
+                
+                const messageDiv = currentStreamingMessage || addMessage('');
+                messageDiv.innerHTML = '';
+                messageDiv.appendChild(card);
+                if (message.message) {
+                    decorateMessage(messageDiv, message.message);
+                }
+                finalizeStreamingMessage();
+                chatMessages.scrollTop = chatMessages.scrollHeight;
+            }
+            
+            function createPlanStep(step) {
+                const row = document.createElement('div');
+                row.className = 'plan-step ' + step.status;
+                row.dataset.status = step.status;
+                row.innerHTML = '<div class="plan-step-header"><input type="checkbox" title="Run this step">' +
+                    '<input type="text" data-field="title" placeholder="Step title">' +
+                    '<span class="plan-step-status"></span><button title="Remove this step">×</button></div>' +
+                    '<textarea data-field="description" rows="2" placeholder="What to change and why"></textarea>' +
+                    '<input type="text" data-field="files" placeholder="Files to touch, comma-separated">' +
+                    '<textarea data-field="commands" rows="1" placeholder="Commands to run, one per line"></textarea>' +
+                    '<div class="plan-step-detail"></div>';
+                row.querySelector('input[type="checkbox"]').checked = step.enabled !== false;
+                row.querySelector('[data-field="title"]').value = step.title;
+                row.querySelector('[data-field="description"]').value = step.description;
+                row.querySelector('[data-field="files"]').value = step.files.join(', ');
+                row.querySelector('[data-field="commands"]').value = step.commands.join('\\n');
+                row.querySelector('.plan-step-status').textContent = PLAN_STEP_LABELS[step.status] || '';
+                row.querySelector('.plan-step-header button').addEventListener('click', () => row.remove());
+                return row;
+            }
+            
+            function readPlanStep(row) {
+                const lines = field => row.querySelector('[data-field="' + field + '"]').value
+                    .split(field === 'files' ? ',' : '\\n')
+                    .map(item => item.trim())
+                    .filter(item => item);
+                return {
+                    title: row.querySelector('[data-field="title"]').value.trim(),
+                    description: row.querySelector('[data-field="description"]').value.trim(),
+                    files: lines('files'),
+                    commands: lines('commands'),
+                    enabled: row.querySelector('input[type="checkbox"]').checked,
+                    status: row.dataset.status
+                };
+            }
+            
+            function setPlanEditable(card, editable) {
+                card.querySelectorAll('.plan-step').forEach(row => {
+                    const locked = !editable || row.dataset.status === 'done';
+                    row.querySelectorAll('input, textarea, button').forEach(input => input.disabled = locked);
+                });
+                card.querySelectorAll('.plan-actions button').forEach(button => button.disabled = !editable);
+            }
+            
+            function getPlanCard(planId) {
+                return chatMessages.querySelector('.plan-card[data-plan-id="' + planId + '"]');
+            }
+            
+            function updatePlanStep(message) {
+                const card = getPlanCard(message.planId);
+                const row = card && card.querySelector('.plan-steps').children[message.index];
+                if (!row) return;
+                row.className = 'plan-step ' + message.status;
+                row.dataset.status = message.status;
+                row.querySelector('.plan-step-status').textContent = PLAN_STEP_LABELS[message.status] || '';
+                row.querySelector('.plan-step-detail').textContent = message.detail || '';
+            }
+            
+            function endPlan(message) {
+                const card = getPlanCard(message.planId);
+                if (!card) return;
+                if (message.status === 'done') {
+                    setPlanEditable(card, false);
+                    card.querySelector('.plan-actions').remove();
+                    card.querySelector('.plan-summary').textContent += ' (completed)';
+                } else {
+                    // Fix or skip the failed step and run the rest
+                    setPlanEditable(card, true);
+                    card.querySelector('[data-action="run"]').textContent = 'Run remaining steps';
                 }
             }
             
             // Event listeners
+            document.querySelectorAll('.view-tab').forEach(tab => {
+                tab.addEventListener('click', () => showView(tab.getAttribute('data-view')));
+            });
+            newSessionButton.addEventListener('click', () => {
+                vscode.postMessage({ type: 'newSession' });
+                showView('chat');
+            });
+            pullButton.addEventListener('click', () => {
+                const name = pullInput.value.trim();
+                if (name) {
+                    vscode.postMessage({ type: 'pullModel', name: name, endpoint: pullEndpointSelect.value || undefined });
+                    pullInput.value = '';
+                }
+            });
             sendButton.addEventListener('click', sendMessage);
+            stopButton.addEventListener('click', () => {
+                vscode.postMessage({ type: 'stopGeneration' });
+            });
             clearButton.addEventListener('click', () => {
                 vscode.postMessage({ type: 'clearChat' });
             });
             
+            chatInput.addEventListener('input', updateMentionMenu);
+            chatInput.addEventListener('blur', hideMentionMenu);
+            chatInput.addEventListener('keydown', (e) => {
+                if (!mentionItems.length) return;
+                if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                    e.preventDefault();
+                    highlightMention(e.key === 'ArrowDown' ? 1 : -1);
+                } else if (e.key === 'Enter' || e.key === 'Tab') {
+                    e.preventDefault();
+                    pickMention(mentionItems[mentionIndex]);
+                } else if (e.key === 'Escape') {
+                    hideMentionMenu();
+                }
+            });
+            
             chatInput.addEventListener('keypress', (e) => {
                 if (e.key === 'Enter') {
                     sendMessage();
                 }
             });
             
+            compareToggle.addEventListener('change', () => {
+                compareSelects.forEach(select => select.disabled = !compareToggle.checked);
+            });
+            
             if (modelSelect) {
                 modelSelect.addEventListener('change', () => {
                     selectedModel = modelSelect.value;
@@ -2108,7 +5223,20 @@ And more text here.`;
                 
                 switch (message.type) {
                     case 'userMessage':
-                        addMessage(message.content, true);
+                        const userDiv = addMessage(message.content, true);
+                        addMentionLabels(userDiv, message.mentions);
+                        if (message.id) {
+                            decorateMessage(userDiv, { id: message.id, role: 'user', content: message.content });
+                        }
+                        break;
+                    case 'slashCommands':
+                        slashCommands = message.commands;
+                        break;
+                    case 'mentionSuggestions':
+                        const token = getMentionToken();
+                        if (token && token.kind === message.kind && token.value === message.query) {
+                            showMentionItems(message.items);
+                        }
                         break;
                     case 'assistantMessage':
                         if (message.streaming) {
@@ -2122,16 +5250,46 @@ And more text here.`;
                         break;
                     case 'replaceStreamingMessage':
                         // Replace the current streaming message with the processed content
+                        let finalContent = message.truncated
+                            ? message.content + '<div class="truncated-notice">Generation stopped - this answer is incomplete.</div>'
+                            : message.content;
+                        if (message.stats) {
+                            finalContent += renderStatsFooter(message.stats);
+                        }
                         if (currentStreamingMessage) {
-                            currentStreamingMessage.innerHTML = message.content;
+                            currentStreamingMessage.innerHTML = finalContent;
                             // Attach event listeners to any apply buttons in the new content
                             attachApplyButtonListeners(currentStreamingMessage);
+                            if (message.message) {
+                                decorateMessage(currentStreamingMessage, message.message);
+                            }
                             finalizeStreamingMessage();
                         } else {
                             // If no streaming message, just add as new message
-                            addMessage(message.content);
+                            const finalDiv = addMessage(finalContent);
+                            if (message.message) {
+                                decorateMessage(finalDiv, message.message);
+                            }
                         }
                         break;
+                    case 'compareStart':
+                        startComparison(message);
+                        break;
+                    case 'planReady':
+                        showPlan(message);
+                        break;
+                    case 'planStep':
+                        updatePlanStep(message);
+                        break;
+                    case 'planEnd':
+                        endPlan(message);
+                        break;
+                    case 'compareUpdate':
+                        updateComparison(message);
+                        break;
+                    case 'compareDone':
+                        finishComparisonColumn(message);
+                        break;
                     case 'finalizeMessage':
                         finalizeStreamingMessage();
                         break;
@@ -2139,13 +5297,61 @@ And more text here.`;
                         console.log('[Webview DEBUG] Received codeRecommendation message:', message);
                         addCodeRecommendation(message.message, message.recommendations, message.requestId);
                         break;
+                    case 'codeChangeResult':
+                        showCodeChangeResult(message);
+                        break;
+                    case 'changeSetResult':
+                        showChangeSetResult(message);
+                        break;
                     case 'insertInlineCodePrompt':
                         console.log('[Webview DEBUG] Received insertInlineCodePrompt message:', message);
                         insertInlineCodePrompt(message.promptHtml, message.requestId, message.codeBlock);
                         break;
 
+                    case 'showView':
+                        showView(message.view);
+                        break;
+                    case 'modelList':
+                        renderModelList(message.models, message.error, message.endpoints, message.showEndpoint);
+                        break;
+                    case 'modelDetails':
+                        renderModelDetails(message);
+                        break;
+                    case 'pullProgress':
+                        updatePullProgress(message);
+                        break;
+                    case 'toolResult':
+                        addToolResult(message);
+                        break;
+                    case 'loadSession':
+                        loadSession(message);
+                        break;
+                    case 'checkpointList':
+                        renderCheckpointList(message.checkpoints);
+                        break;
+                    case 'sessionList':
+                        renderSessionList(message.sessions, message.activeId);
+                        break;
+                    case 'contextTrimmed':
+                        addContextNotice(message);
+                        break;
+                    case 'notice':
+                        addNotice(message.text);
+                        break;
+                    case 'agentStart':
+                        startAgentRun(message);
+                        break;
+                    case 'agentStep':
+                        updateAgentStep(message);
+                        break;
+                    case 'agentState':
+                        setAgentPaused(message);
+                        break;
+                    case 'agentEnd':
+                        endAgentRun(message);
+                        break;
                     case 'error':
-                        addMessage('Error: ' + message.message);
+                        addError(message);
                         break;
                     case 'connectionStatus':
                         console.log('[Webview DEBUG] Handling connectionStatus:', message);
@@ -2155,16 +5361,31 @@ And more text here.`;
                             message.models.forEach(model => {
                                 const option = document.createElement('option');
                                 option.value = model;
-                                option.textContent = model;
+                                // With several endpoints, show where each model is available
+                                const servedBy = message.modelEndpoints && message.modelEndpoints[model];
+                                option.textContent = servedBy ? model + ' (' + servedBy.join(', ') + ')' : model;
                                 modelSelect.appendChild(option);
                             });
-                            selectedModel = message.models[0];
+                            // Keep the current choice when the model list is refreshed
+                            if (!selectedModel || !message.models.includes(selectedModel)) {
+                                selectedModel = message.models[0];
+                            }
                             modelSelect.value = selectedModel;
+                            renderCompareSelects(message.models);
                         }
                         
+                        const endpointSummary = (message.endpoints || [])
+                            .map(e => (e.healthy ? '✓ ' : '✗ ') + e.name + ' (' + e.url + ')' + (e.error ? ': ' + e.error : ''))
+                            .join('\\n');
+                        connectionStatus.title = endpointSummary;
+                        
                         if (message.connected) {
+                            const healthyCount = message.endpoints ? message.endpoints.filter(e => e.healthy).length : 1;
+                            const endpointText = message.endpoints && message.endpoints.length > 1
+                                ? ', ' + healthyCount + '/' + message.endpoints.length + ' endpoints up'
+                                : '';
                             connectionStatus.className = 'connection-status connected';
-                            connectionStatus.textContent = 'Connected to Ollama (' + message.models.length + ' models available)';
+                            connectionStatus.textContent = 'Connected to Ollama (' + message.models.length + ' models available' + endpointText + ')';
                             document.getElementById('ollamaInstructions').style.display = 'none';
                         } else {
                             connectionStatus.className = 'connection-status disconnected';
@@ -2180,6 +5401,7 @@ And more text here.`;
                         }
                         break;
                     case 'clearChat':
+                        finalizeStreamingMessage();
                         chatMessages.innerHTML = '<div class="message assistant-message">Chat cleared. How can I help you?</div>';
                         break;
                     default:
@@ -2223,6 +5445,15 @@ And more text here.`;
         return promptHtml;
     }
 
+    private _createChangeSetPromptHtml(fileCount: number, requestId: string): string {
+        return `
+            <div class="inline-code-prompt change-set-prompt">
+                <span style="color: var(--vscode-foreground); font-size: 0.9em;">This answer changes <strong>${fileCount} files</strong>. Review them together, hunk by hunk?</span>
+                <button class="inline-apply-button review-changes-button" data-request-id="${requestId}">Review All Changes</button>
+            </div>
+        `;
+    }
+
     private _injectInlineCodePrompt(codeBlock: { filePath: string, code: string, language?: string, lineNumbers?: string[] }, requestId: string) {
         // Create an inline prompt that will be inserted into the streaming message
         const promptHtml = this._createInlinePromptHtml(codeBlock, requestId);
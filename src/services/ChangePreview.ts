@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { diffLines } from 'diff';
+
+/** Scheme of the editable proposed side of a preview */
+const PROPOSED_SCHEME = 'duvut-proposed';
+/** Scheme of the read-only current side of a preview */
+const CURRENT_SCHEME = 'duvut-current';
+
+export interface ChangeReview {
+    accepted: boolean;
+    /** The proposed content, including edits the user made in the preview */
+    content: string;
+    edited: boolean;
+}
+
+export interface LineCounts {
+    added: number;
+    removed: number;
+}
+
+interface OpenReview {
+    currentUri: vscode.Uri;
+    proposed: string;
+    resolve(review: ChangeReview): void;
+}
+
+/**
+ * Lines added and removed between two versions of a file
+ */
+export function countChangedLines(current: string, proposed: string): LineCounts {
+    const counts: LineCounts = { added: 0, removed: 0 };
+    for (const change of diffLines(current, proposed)) {
+        if (change.added) counts.added += change.count || 0;
+        if (change.removed) counts.removed += change.count || 0;
+    }
+    return counts;
+}
+
+/**
+ * Keeps proposed file contents in memory so they can be shown and edited in a
+ * diff editor before anything is written to disk
+ */
+class ProposalFileSystem implements vscode.FileSystemProvider {
+    private readonly _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile = this._onDidChangeFile.event;
+    private files = new Map<string, { content: Uint8Array; mtime: number }>();
+
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => {});
+    }
+
+    stat(uri: vscode.Uri): vscode.FileStat {
+        const file = this.get(uri);
+        return { type: vscode.FileType.File, ctime: file.mtime, mtime: file.mtime, size: file.content.byteLength };
+    }
+
+    readDirectory(): [string, vscode.FileType][] {
+        return [];
+    }
+
+    createDirectory(): void {}
+
+    readFile(uri: vscode.Uri): Uint8Array {
+        return this.get(uri).content;
+    }
+
+    writeFile(uri: vscode.Uri, content: Uint8Array): void {
+        this.files.set(uri.toString(), { content, mtime: Date.now() });
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+    }
+
+    delete(uri: vscode.Uri): void {
+        this.files.delete(uri.toString());
+    }
+
+    rename(): void {
+        throw vscode.FileSystemError.NoPermissions('Proposed changes cannot be renamed');
+    }
+
+    private get(uri: vscode.Uri) {
+        const file = this.files.get(uri.toString());
+        if (!file) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return file;
+    }
+}
+
+/**
+ * Side-by-side preview of a proposed file change. The proposed side can be
+ * edited; the review resolves when the user accepts or rejects it, or closes
+ * the preview (which counts as rejecting).
+ */
+export class ChangePreview implements vscode.Disposable {
+    private proposals = new ProposalFileSystem();
+    private currentContents = new Map<string, string>();
+    private reviews = new Map<string, OpenReview>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.disposables.push(
+            vscode.workspace.registerFileSystemProvider(PROPOSED_SCHEME, this.proposals),
+            vscode.workspace.registerTextDocumentContentProvider(CURRENT_SCHEME, {
+                provideTextDocumentContent: uri => this.currentContents.get(uri.toString()) ?? ''
+            }),
+            vscode.window.tabGroups.onDidChangeTabs(e => {
+                for (const tab of e.closed) {
+                    if (tab.input instanceof vscode.TabInputTextDiff && this.reviews.has(tab.input.modified.toString())) {
+                        this.settle(tab.input.modified, false);
+                    }
+                }
+            })
+        );
+    }
+
+    /**
+     * Open the preview of `filePath` and wait for the decision. `current` is
+     * undefined for a file that does not exist yet; `note` is added to the
+     * notification.
+     */
+    async review(filePath: string, current: string | undefined, proposed: string, note?: string): Promise<ChangeReview> {
+        const id = Date.now().toString(36);
+        const name = path.basename(filePath);
+        const proposedUri = vscode.Uri.from({ scheme: PROPOSED_SCHEME, path: `/${id}/${name}` });
+        const currentUri = vscode.Uri.from({ scheme: CURRENT_SCHEME, path: `/${id}/${name}` });
+        this.proposals.writeFile(proposedUri, Buffer.from(proposed, 'utf8'));
+        this.currentContents.set(currentUri.toString(), current ?? '');
+
+        const decision = new Promise<ChangeReview>(resolve => {
+            this.reviews.set(proposedUri.toString(), { currentUri, proposed, resolve });
+        });
+        const title = `${filePath} (${current === undefined ? 'new file' : 'current'} ↔ proposed)`;
+        await vscode.commands.executeCommand('vscode.diff', currentUri, proposedUri, title, { preview: false });
+
+        const { added, removed } = countChangedLines(current ?? '', proposed);
+        vscode.window.showInformationMessage(
+            `Proposed change to ${filePath}: +${added} −${removed} lines. ${note ? note + ' ' : ''}Edit the right side if needed, then accept.`,
+            'Accept',
+            'Reject'
+        ).then(choice => {
+            if (choice) {
+                this.settle(proposedUri, choice === 'Accept');
+            }
+        });
+        return decision;
+    }
+
+    /**
+     * Accept or reject the preview shown with the given URI. Does nothing when
+     * that preview is no longer open.
+     */
+    async settle(uri: vscode.Uri | undefined, accepted: boolean): Promise<void> {
+        // Both sides share a path, so the current side identifies the preview too
+        if (uri?.scheme === CURRENT_SCHEME) {
+            uri = uri.with({ scheme: PROPOSED_SCHEME });
+        }
+        const key = uri?.toString();
+        const review = key && this.reviews.get(key);
+        if (!review) return;
+        this.reviews.delete(key!);
+
+        // Unsaved edits in the preview count; saving only clears the dirty state
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === key);
+        const content = document ? document.getText() : Buffer.from(this.proposals.readFile(uri!)).toString('utf8');
+        if (document?.isDirty) {
+            await document.save();
+        }
+
+        const tabs = vscode.window.tabGroups.all
+            .flatMap(group => group.tabs)
+            .filter(tab => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === key);
+        await vscode.window.tabGroups.close(tabs);
+
+        this.proposals.delete(uri!);
+        this.currentContents.delete(review.currentUri.toString());
+        review.resolve({ accepted, content, edited: content !== review.proposed });
+    }
+
+    dispose() {
+        for (const key of [...this.reviews.keys()]) {
+            this.settle(vscode.Uri.parse(key), false);
+        }
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
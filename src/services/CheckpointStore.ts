@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * Contents of one file before the assistant first changed it within a checkpoint
+ */
+export interface FileSnapshot {
+    /** Absolute path of the file */
+    path: string;
+    /** Undefined when the file did not exist yet, so restoring deletes it */
+    content?: string;
+}
+
+/**
+ * Files changed while answering one request, as they were before the request
+ */
+export interface Checkpoint {
+    /** ID of the request that made the changes */
+    id: string;
+    /** The user message the changes answer */
+    label: string;
+    createdAt: number;
+    sessionId: string;
+    files: FileSnapshot[];
+}
+
+export interface RestoreResult {
+    restored: string[];
+    failed: Array<{ path: string; error: string }>;
+}
+
+const CHECKPOINTS_KEY = 'duvut.checkpoints';
+/** Oldest checkpoints are dropped beyond this, so the workspace state stays small */
+const MAX_CHECKPOINTS = 50;
+
+/**
+ * Resolve a path the way ToolsService does: relative paths are taken from the
+ * first workspace folder
+ */
+function toAbsolutePath(filePath: string): string {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    return path.isAbsolute(filePath) || !folder ? filePath : path.join(folder.uri.fsPath, filePath);
+}
+
+/**
+ * Snapshots of the files the assistant changes, kept in `workspaceState` and
+ * grouped by request, so any request's changes can be rolled back
+ */
+export class CheckpointStore implements vscode.Disposable {
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(private readonly state: vscode.Memento) {}
+
+    /**
+     * Checkpoints, newest first
+     */
+    list(): Checkpoint[] {
+        return [...this.state.get<Checkpoint[]>(CHECKPOINTS_KEY, [])].sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    /**
+     * Record the current contents of a file before it is written. Only the first
+     * write of a file within a request is recorded, which is the state to go back to.
+     */
+    async snapshot(requestId: string, label: string, sessionId: string, filePath: string): Promise<void> {
+        const absolutePath = toAbsolutePath(filePath);
+        const checkpoints = this.list();
+        let checkpoint = checkpoints.find(c => c.id === requestId);
+        if (checkpoint?.files.some(file => file.path === absolutePath)) {
+            return;
+        }
+
+        let content: string | undefined;
+        try {
+            content = Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(absolutePath))).toString('utf8');
+        } catch (error) {
+            if (!(error instanceof vscode.FileSystemError && error.code === 'FileNotFound')) {
+                throw error;
+            }
+        }
+
+        if (!checkpoint) {
+            checkpoint = { id: requestId, label, createdAt: Date.now(), sessionId, files: [] };
+            checkpoints.unshift(checkpoint);
+        }
+        checkpoint.files.push({ path: absolutePath, content });
+        await this.state.update(CHECKPOINTS_KEY, checkpoints.slice(0, MAX_CHECKPOINTS));
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Put the files back as they were before the checkpoint. Later checkpoints
+     * are rolled back first, since they were made on top of this one; files the
+     * assistant created are moved to the trash. The restored snapshots are removed;
+     * those that could not be written back are kept, so the rollback can be retried.
+     */
+    async restore(id: string): Promise<RestoreResult> {
+        const checkpoints = this.list();
+        const index = checkpoints.findIndex(c => c.id === id);
+        const result: RestoreResult = { restored: [], failed: [] };
+        if (index === -1) {
+            return result;
+        }
+
+        const kept: Checkpoint[] = [];
+        for (const checkpoint of checkpoints.slice(0, index + 1)) {
+            const failed: FileSnapshot[] = [];
+            for (const file of checkpoint.files) {
+                const uri = vscode.Uri.file(file.path);
+                try {
+                    if (file.content === undefined) {
+                        await vscode.workspace.fs.delete(uri, { useTrash: true });
+                    } else {
+                        await vscode.workspace.fs.writeFile(uri, Buffer.from(file.content, 'utf8'));
+                    }
+                    result.restored.push(file.path);
+                } catch (error) {
+                    if (file.content === undefined && error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+                        // Already gone
+                        result.restored.push(file.path);
+                        continue;
+                    }
+                    result.failed.push({ path: file.path, error: error instanceof Error ? error.message : String(error) });
+                    failed.push(file);
+                }
+            }
+            if (failed.length > 0) {
+                kept.push({ ...checkpoint, files: failed });
+            }
+        }
+
+        await this.state.update(CHECKPOINTS_KEY, [...kept, ...checkpoints.slice(index + 1)]);
+        this._onDidChange.fire();
+        return { ...result, restored: [...new Set(result.restored)] };
+    }
+
+    dispose() {
+        this._onDidChange.dispose();
+    }
+}
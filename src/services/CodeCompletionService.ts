@@ -1,6 +1,13 @@
 import * as vscode from 'vscode';
-import { OllamaClient } from '../api/OllamaClient';
+import { NO_RESPONSE } from '../api/LlmBackend';
+import { OllamaError, OllamaErrorCategory } from '../api/RequestPolicy';
 import { DebugService } from './DebugService';
+import { EndpointManager } from './EndpointManager';
+import { ModelProfiles } from './ModelProfiles';
+
+/** Lines around the cursor sent with a fill-in-the-middle request */
+const FIM_PREFIX_LINES = 60;
+const FIM_SUFFIX_LINES = 30;
 
 export interface CompletionSuggestion {
     text: string;
@@ -11,11 +18,13 @@ export interface CompletionSuggestion {
 }
 
 export class CodeCompletionService {
-    private ollamaClient: OllamaClient;
+    private endpointManager: EndpointManager;
+    private modelProfiles: ModelProfiles;
     private outputChannel: vscode.OutputChannel;
     private debugService: DebugService;
     private isProcessing: boolean = false;
     private lastRequestTime: number = 0;
+    private lastReportedError?: OllamaErrorCategory;
 
     private get debounceDelay(): number {
         return vscode.workspace.getConfiguration('duvut-assistant.codeCompletion').get('debounceDelay', 500);
@@ -46,7 +55,8 @@ export class CodeCompletionService {
     }
 
     constructor(outputChannel: vscode.OutputChannel) {
-        this.ollamaClient = new OllamaClient(outputChannel);
+        this.endpointManager = EndpointManager.getInstance(outputChannel);
+        this.modelProfiles = ModelProfiles.getInstance(outputChannel);
         this.outputChannel = outputChannel;
         this.debugService = DebugService.getInstance(outputChannel);
     }
@@ -57,8 +67,12 @@ export class CodeCompletionService {
     async getSuggestions(
         document: vscode.TextDocument,
         position: vscode.Position,
-        context: vscode.CompletionContext
+        context: vscode.CompletionContext,
+        token?: vscode.CancellationToken
     ): Promise<vscode.CompletionItem[]> {
+        // Abort the Ollama request if VS Code cancels the completion (e.g. the user keeps typing)
+        const abortController = new AbortController();
+        const cancellationListener = token?.onCancellationRequested(() => abortController.abort());
         try {
             this.debugService.log('getSuggestions', 'Starting code completion request', {
                 fileName: document.fileName,
@@ -87,30 +101,38 @@ export class CodeCompletionService {
             this.isProcessing = true;
             this.lastRequestTime = now;
 
-            // Get context around the current position
-            const contextRange = this.getContextRange(document, position);
-            const contextText = document.getText(contextRange);
+            // Models with a fill-in-the-middle template complete at the cursor from the code on both sides
+            const fimTemplate = this.modelProfiles.resolve(this.selectedModel).fimTemplate;
+            let suggestion: string;
+            let currentExpression = '';
+            if (fimTemplate) {
+                suggestion = await this.getFimSuggestion(document, position, fimTemplate, abortController.signal);
+            } else {
+                // Get context around the current position
+                const contextRange = this.getContextRange(document, position);
+                const contextText = document.getText(contextRange);
             
-            // Get workspace context
-            const workspaceContext = await this.getWorkspaceContext(document);
+                // Get workspace context
+                const workspaceContext = await this.getWorkspaceContext(document);
             
-            // Get the current expression being typed
-            const currentExpression = this.getCurrentExpression(document, position);
-            this.debugService.log('getSuggestions', 'Context analysis complete', {
-                contextTextLength: contextText.length,
-                workspaceContextLength: workspaceContext.length,
-                currentExpression: currentExpression
-            });
+                // Get the current expression being typed
+                currentExpression = this.getCurrentExpression(document, position);
+                this.debugService.log('getSuggestions', 'Context analysis complete', {
+                    contextTextLength: contextText.length,
+                    workspaceContextLength: workspaceContext.length,
+                    currentExpression: currentExpression
+                });
             
-            // Create prompt for code completion
-            const prompt = this.createCompletionPrompt(contextText, position, document.languageId, workspaceContext, currentExpression);
-            this.debugService.log('getSuggestions', 'Created completion prompt', {
-                promptLength: prompt.length,
-                model: this.selectedModel
-            });
+                // Create prompt for code completion
+                const prompt = this.createCompletionPrompt(contextText, position, document.languageId, workspaceContext, currentExpression);
+                this.debugService.log('getSuggestions', 'Created completion prompt', {
+                    promptLength: prompt.length,
+                    model: this.selectedModel
+                });
             
-            // Get suggestion from Ollama
-            const suggestion = await this.getSuggestionFromOllama(prompt, document.languageId, currentExpression);
+                // Get suggestion from Ollama
+                suggestion = await this.getSuggestionFromOllama(prompt, document.languageId, currentExpression, abortController.signal);
+            }
             
             if (suggestion && suggestion.trim()) {
                 this.debugService.log('getSuggestions', 'Received suggestion from Ollama', {
@@ -131,6 +153,8 @@ export class CodeCompletionService {
             this.outputChannel.appendLine(`[CodeCompletion] Error: ${error}`);
             this.isProcessing = false;
             return [];
+        } finally {
+            cancellationListener?.dispose();
         }
     }
 
@@ -255,7 +279,7 @@ Next line after "${currentExpression}":`;
     /**
      * Get suggestion from Ollama
      */
-    private async getSuggestionFromOllama(prompt: string, language: string, currentExpression: string): Promise<string> {
+    private async getSuggestionFromOllama(prompt: string, language: string, currentExpression: string, signal?: AbortSignal): Promise<string> {
         try {
             const messages = [
                 {
@@ -268,9 +292,18 @@ Next line after "${currentExpression}":`;
                 }
             ];
 
-            const response = await this.ollamaClient.chat(messages, this.selectedModel, 10000); // 10 second timeout for code completion
+            const model = this.selectedModel;
+            const response = await this.endpointManager.withFailover('completion', model, client => client.chat(messages, model, {
+                ...this.modelProfiles.getRequestOptions(model),
+                timeoutMs: 10000, // 10 second timeout for code completion
+                signal
+            }));
             
+            this.lastReportedError = undefined;
             this.outputChannel.appendLine(`[CodeCompletion] Raw AI response: "${response}"`);
+            if (response === NO_RESPONSE) {
+                return '';
+            }
             
             // Clean up the response
             let suggestion = response.trim();
@@ -324,10 +357,58 @@ Next line after "${currentExpression}":`;
 
         } catch (error) {
             this.outputChannel.appendLine(`[CodeCompletion] Ollama error: ${error}`);
+            this.reportBackendError(error);
             return '';
         }
     }
 
+    /**
+     * Fill-in-the-middle completion: the code before and after the cursor is put
+     * into the model's FIM template and sent raw, without its chat template
+     */
+    private async getFimSuggestion(document: vscode.TextDocument, position: vscode.Position, template: string, signal?: AbortSignal): Promise<string> {
+        const start = new vscode.Position(Math.max(0, position.line - FIM_PREFIX_LINES), 0);
+        const endLine = Math.min(document.lineCount - 1, position.line + FIM_SUFFIX_LINES);
+        const prefix = document.getText(new vscode.Range(start, position));
+        const suffix = document.getText(new vscode.Range(position, document.lineAt(endLine).range.end));
+        const prompt = template.replace(/\{\{prefix\}\}/g, () => prefix).replace(/\{\{suffix\}\}/g, () => suffix);
+
+        try {
+            const model = this.selectedModel;
+            const response = await this.endpointManager.withFailover('completion', model, client => client.generateCompletion(prompt, model, {
+                ...this.modelProfiles.getRequestOptions(model),
+                timeoutMs: 10000,
+                signal,
+                raw: true
+            }));
+            this.lastReportedError = undefined;
+            this.outputChannel.appendLine(`[CodeCompletion] Raw FIM response: "${response}"`);
+            if (response === NO_RESPONSE) {
+                return '';
+            }
+
+            // Models tend to keep going past the gap; stop at the first blank line
+            const suggestion = response.split(/\n\s*\n/)[0].trimEnd();
+            return suggestion.length > this.maxSuggestionLength ? suggestion.substring(0, this.maxSuggestionLength) : suggestion;
+        } catch (error) {
+            this.outputChannel.appendLine(`[CodeCompletion] FIM error: ${error}`);
+            this.reportBackendError(error);
+            return '';
+        }
+    }
+
+    /**
+     * Completion runs in the background, so warn once per kind of failure rather
+     * than silently returning no suggestions. Reset by the next successful request.
+     */
+    private reportBackendError(error: unknown): void {
+        if (!(error instanceof OllamaError) || error.category === 'cancelled' || error.category === this.lastReportedError) {
+            return;
+        }
+        this.lastReportedError = error.category;
+        void vscode.window.showWarningMessage(`Duvut code completion: ${error.message}`);
+    }
+
     /**
      * Create a completion item that can be accepted with TAB
      */
@@ -356,6 +437,14 @@ Next line after "${currentExpression}":`;
         return completionItem;
     }
 
+    /**
+     * Whether an endpoint for code completion is currently reachable, based on the
+     * background health probes rather than a request per keystroke
+     */
+    isBackendAvailable(): boolean {
+        return this.endpointManager.hasHealthyEndpoint('completion');
+    }
+
     /**
      * Check if code completion should be triggered
      */
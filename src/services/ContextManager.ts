@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import { ChatMessage, LlmBackend } from '../api/LlmBackend';
+import { OllamaClient } from '../api/OllamaClient';
+import { DebugService } from './DebugService';
+import { ModelProfiles } from './ModelProfiles';
+
+export interface ContextBudgetInput {
+    systemPrompt: string;
+    /** Workspace context message, trimmed first when it does not fit its share */
+    workspaceContext?: string;
+    /** Conversation so far, oldest first; the last message is the current request */
+    history: ChatMessage[];
+    contextLength: number;
+}
+
+export interface ContextBudgetResult {
+    messages: ChatMessage[];
+    contextLength: number;
+    estimatedTokens: number;
+    /** Number of older history messages left out of the request */
+    droppedMessages: number;
+    workspaceContextTruncated: boolean;
+}
+
+const DEFAULT_CONTEXT_LENGTH = 4096;
+const CHARS_PER_TOKEN = 3.5;
+/** Rough per-message cost of the chat template (role markers, separators) */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+/** Largest share of the prompt budget the workspace context may take */
+const WORKSPACE_CONTEXT_SHARE = 0.4;
+
+/**
+ * Rough token count. Tokenizers differ per model, so this errs on the high side
+ * (about 3.5 characters per token) rather than risk overflowing the context.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Works out each model's context window and fits the system prompt, workspace
+ * context and chat history into it, dropping the oldest history first.
+ */
+export class ContextManager {
+    private contextLengths = new Map<string, number>();
+    private debugService: DebugService;
+    private modelProfiles: ModelProfiles;
+
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.debugService = DebugService.getInstance(outputChannel);
+        this.modelProfiles = ModelProfiles.getInstance(outputChannel);
+    }
+
+    /**
+     * Context length to request for a model: a per-model setting or the `numCtx`
+     * of its profile if present, otherwise the model's trained context length
+     * from `/api/show`, capped by `context.maxContextLength` to keep memory use reasonable
+     */
+    async getContextLength(client: LlmBackend, model: string): Promise<number> {
+        const config = vscode.workspace.getConfiguration('duvut-assistant.context');
+        const overrides = config.get<Record<string, number>>('modelContextLengths', {});
+        if (overrides[model]) {
+            return overrides[model];
+        }
+        const profileLength = this.modelProfiles.resolve(model).numCtx;
+        if (profileLength) {
+            return profileLength;
+        }
+
+        const maxContextLength = config.get('maxContextLength', 8192);
+        const cacheKey = `${client.getEndpointUrl()}/${model}`;
+        let modelLength = this.contextLengths.get(cacheKey);
+        if (modelLength === undefined) {
+            modelLength = await this.readModelContextLength(client, model);
+            this.contextLengths.set(cacheKey, modelLength);
+        }
+        return Math.min(modelLength, maxContextLength);
+    }
+
+    private async readModelContextLength(client: LlmBackend, model: string): Promise<number> {
+        if (!(client instanceof OllamaClient)) {
+            return DEFAULT_CONTEXT_LENGTH;
+        }
+        try {
+            const info = await client.showModel(model);
+            // A num_ctx baked into the Modelfile wins over the architecture's maximum
+            const numCtx = info.parameters?.match(/^num_ctx\s+(\d+)/m);
+            if (numCtx) {
+                return parseInt(numCtx[1], 10);
+            }
+            // model_info keys are prefixed with the architecture, e.g. "llama.context_length"
+            const key = Object.keys(info.model_info || {}).find(k => k.endsWith('.context_length'));
+            if (key) {
+                return info.model_info![key];
+            }
+        } catch (error) {
+            this.debugService.log('ContextManager', `Could not read context length for ${model}`, error);
+        }
+        return DEFAULT_CONTEXT_LENGTH;
+    }
+
+    /**
+     * Fit a request into the context window, leaving room for the response
+     */
+    fit(input: ContextBudgetInput): ContextBudgetResult {
+        const maxTokens = vscode.workspace.getConfiguration('duvut-assistant').get('maxTokens', 4000);
+        const responseReserve = Math.min(maxTokens, Math.floor(input.contextLength / 4));
+        let remaining = input.contextLength - responseReserve;
+
+        const systemMessage: ChatMessage = { role: 'system', content: input.systemPrompt };
+        remaining -= this.messageTokens(systemMessage);
+
+        // The current request is always sent, even if the budget is already exhausted
+        const history = input.history;
+        const current = history[history.length - 1];
+        if (current) {
+            remaining -= this.messageTokens(current);
+        }
+
+        let workspaceMessage: ChatMessage | undefined;
+        let workspaceContextTruncated = false;
+        if (input.workspaceContext) {
+            const share = Math.max(0, Math.floor(remaining * WORKSPACE_CONTEXT_SHARE));
+            let text = input.workspaceContext;
+            if (estimateTokens(text) > share) {
+                text = this.truncateToTokens(text, share);
+                workspaceContextTruncated = true;
+            }
+            if (text) {
+                workspaceMessage = { role: 'user', content: text };
+                remaining -= this.messageTokens(workspaceMessage);
+            }
+        }
+
+        // Newest history first until the budget runs out
+        let kept = history.length > 0 ? 1 : 0;
+        for (let i = history.length - 2; i >= 0; i--) {
+            const tokens = this.messageTokens(history[i]);
+            if (tokens > remaining) {
+                break;
+            }
+            remaining -= tokens;
+            kept++;
+        }
+        let keptHistory = history.slice(history.length - kept);
+        // Don't start mid-exchange with an orphaned assistant reply or tool result
+        while (keptHistory.length > 1 && keptHistory[0].role !== 'user') {
+            keptHistory = keptHistory.slice(1);
+        }
+
+        const messages = [systemMessage, ...(workspaceMessage ? [workspaceMessage] : []), ...keptHistory];
+        const estimatedTokens = messages.reduce((sum, message) => sum + this.messageTokens(message), 0);
+        const droppedMessages = history.length - keptHistory.length;
+
+        if (droppedMessages > 0 || workspaceContextTruncated) {
+            this.debugService.log('ContextManager', 'Trimmed request to fit the context window', {
+                contextLength: input.contextLength,
+                estimatedTokens,
+                droppedMessages,
+                workspaceContextTruncated
+            });
+        }
+
+        return { messages, contextLength: input.contextLength, estimatedTokens, droppedMessages, workspaceContextTruncated };
+    }
+
+    private messageTokens(message: ChatMessage): number {
+        const toolCalls = message.tool_calls ? JSON.stringify(message.tool_calls) : '';
+        return estimateTokens(message.content) + estimateTokens(toolCalls) + MESSAGE_OVERHEAD_TOKENS;
+    }
+
+    private truncateToTokens(text: string, tokens: number): string {
+        if (tokens <= 0) {
+            return '';
+        }
+        const marker = '\n[... workspace context truncated to fit the context window]';
+        const maxChars = Math.max(0, Math.floor(tokens * CHARS_PER_TOKEN) - marker.length);
+        return text.substring(0, maxChars) + marker;
+    }
+}
@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import { v4 as uuidv4 } from 'uuid';
+import { LlmBackend, NO_RESPONSE } from '../api/LlmBackend';
+import { estimateTokens } from './ContextManager';
+import { ConversationTree } from './ConversationTree';
+import { DebugService } from './DebugService';
+import { ChatSession, SessionArchive, SessionMessage } from './SessionStore';
+
+export const SUMMARY_PREFIX = 'Summary of the earlier conversation:\n\n';
+
+/** Tool output is clipped in the summary request; the summary only needs the gist */
+const MAX_TOOL_OUTPUT_CHARS = 1500;
+/** Share of the context window the transcript to summarise may take */
+const TRANSCRIPT_SHARE = 0.6;
+/** Local models can take minutes to read and summarise a long transcript */
+const SUMMARY_TIMEOUT_MS = 10 * 60 * 1000;
+
+const SUMMARY_INSTRUCTIONS = `You compress a conversation between a user and a coding assistant so it can continue in a smaller context.
+Write a concise summary that keeps:
+- the user's goals and requirements
+- decisions that were made and why
+- every file, function and command that was mentioned or changed
+- open questions and TODOs that are not done yet
+Write it as notes in plain Markdown. Do not add anything that was not in the conversation.`;
+
+/**
+ * Shrinks long sessions by replacing the older part of the active branch with
+ * a model-written summary. The replaced messages are moved to an archive on the
+ * session so they can still be read.
+ */
+export class ConversationCompactor {
+    private debugService: DebugService;
+
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.debugService = DebugService.getInstance(outputChannel);
+    }
+
+    /**
+     * Summarise all but the most recent messages of the active branch. Returns
+     * the new archive, or undefined when there was too little to compact.
+     */
+    async compact(
+        session: ChatSession,
+        client: LlmBackend,
+        model: string,
+        options: { contextLength: number; signal?: AbortSignal }
+    ): Promise<SessionArchive | undefined> {
+        const keepMessages = vscode.workspace.getConfiguration('duvut-assistant.context').get('compactKeepMessages', 6);
+        const path = new ConversationTree(session).getActivePath().filter(m => m.role !== 'system');
+
+        // Keep whole exchanges: the recent part starts with a user message
+        let split = Math.max(0, path.length - keepMessages);
+        while (split > 0 && path[split].role !== 'user') {
+            split--;
+        }
+        const older = path.slice(0, split);
+        if (older.length < 2) {
+            return undefined;
+        }
+
+        this.debugService.log('ConversationCompactor', `Summarising ${older.length} messages with ${model}`);
+        const summary = await client.chat([
+            { role: 'system', content: SUMMARY_INSTRUCTIONS },
+            { role: 'user', content: this.buildTranscript(older, options.contextLength) }
+        ], model, { signal: options.signal, contextLength: options.contextLength, timeoutMs: SUMMARY_TIMEOUT_MS });
+        // Checked before anything is archived, so an empty reply leaves the session as it was
+        if (!summary.trim() || summary === NO_RESPONSE) {
+            throw new Error('The model returned an empty summary.');
+        }
+
+        const archive = this.archive(session, older, path[split], summary.trim());
+        this.debugService.log('ConversationCompactor', `Archived ${archive.messages.length} messages`, {
+            summaryLength: summary.length
+        });
+        return archive;
+    }
+
+    /**
+     * Put the summary in place of the older messages. Everything that does not
+     * lead to the kept messages - including branches that split off earlier -
+     * goes to the archive.
+     */
+    private archive(session: ChatSession, older: SessionMessage[], firstKept: SessionMessage, summary: string): SessionArchive {
+        const archiveId = uuidv4();
+        const summaryMessage: SessionMessage = {
+            id: uuidv4(),
+            role: 'user',
+            content: SUMMARY_PREFIX + summary,
+            archiveId
+        };
+
+        const kept = new Set<string>([firstKept.id]);
+        for (const message of session.messages) {
+            // Children are always added after their parent, so one pass finds the subtree
+            if (message.parentId && kept.has(message.parentId)) {
+                kept.add(message.id);
+            }
+        }
+
+        const archive: SessionArchive = {
+            id: archiveId,
+            createdAt: Date.now(),
+            messages: session.messages.filter(m => !kept.has(m.id)),
+            leafId: older[older.length - 1].id
+        };
+        firstKept.parentId = summaryMessage.id;
+        session.messages = [summaryMessage, ...session.messages.filter(m => kept.has(m.id))];
+        session.archives = [...(session.archives || []), archive];
+        return archive;
+    }
+
+    /**
+     * The older messages as plain text. An earlier summary is always included;
+     * beyond that the newest messages win when the transcript is too long.
+     */
+    private buildTranscript(messages: SessionMessage[], contextLength: number): string {
+        const budget = Math.floor(contextLength * TRANSCRIPT_SHARE);
+        const entries = messages.map(message => this.describe(message));
+        const earlierSummaries = entries.filter((_, index) => messages[index].archiveId);
+        let used = earlierSummaries.reduce((sum, entry) => sum + estimateTokens(entry), 0);
+
+        const recent: string[] = [];
+        for (let i = entries.length - 1; i >= 0; i--) {
+            if (messages[i].archiveId) continue;
+            used += estimateTokens(entries[i]);
+            if (used > budget && recent.length > 0) break;
+            recent.unshift(entries[i]);
+        }
+        return `Summarise this conversation:\n\n${[...earlierSummaries, ...recent].join('\n\n')}`;
+    }
+
+    private describe(message: SessionMessage): string {
+        if (message.archiveId) {
+            return message.content;
+        }
+        switch (message.role) {
+            case 'user': {
+                const attached = message.mentions?.length
+                    ? `\n[attached ${message.mentions.map(mention => mention.label).join(', ')}]`
+                    : '';
+                return `User: ${message.content}${attached}`;
+            }
+            case 'tool': {
+                const output = message.content.length > MAX_TOOL_OUTPUT_CHARS
+                    ? message.content.substring(0, MAX_TOOL_OUTPUT_CHARS) + '\n[... output shortened]'
+                    : message.content;
+                return `Tool result (${message.tool_name || 'tool'}):\n${output}`;
+            }
+            default: {
+                const calls = (message.tool_calls || [])
+                    .map(call => `\n[called ${call.function.name}(${JSON.stringify(call.function.arguments)})]`)
+                    .join('');
+                return `Assistant: ${message.content}${calls}`;
+            }
+        }
+    }
+}
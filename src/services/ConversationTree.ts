@@ -0,0 +1,121 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ChatSession, SessionMessage } from './SessionStore';
+
+/** Message content before it is placed in the tree */
+export type NewMessage = Omit<SessionMessage, 'id' | 'parentId'>;
+
+export interface SiblingInfo {
+    /** 1-based position among the alternatives */
+    index: number;
+    count: number;
+}
+
+/**
+ * View of a session's messages as a tree. Each message points at the one it
+ * follows; editing a message adds a sibling, so earlier continuations stay
+ * available as branches. `session.leafId` marks the branch being shown.
+ */
+export class ConversationTree {
+    constructor(private readonly session: ChatSession) {}
+
+    /**
+     * Give messages saved before branching existed an ID and chain them in order
+     */
+    static normalize(session: ChatSession): ChatSession {
+        let previous: SessionMessage | undefined;
+        for (const message of session.messages) {
+            if (!message.id) {
+                message.id = uuidv4();
+                message.parentId = previous?.id;
+            }
+            previous = message;
+        }
+        if (!session.leafId || !session.messages.some(m => m.id === session.leafId)) {
+            session.leafId = previous?.id;
+        }
+        return session;
+    }
+
+    /**
+     * Messages from the root to the current leaf - the conversation the model sees
+     */
+    getActivePath(): SessionMessage[] {
+        const byId = new Map(this.session.messages.map(m => [m.id, m]));
+        const path: SessionMessage[] = [];
+        let current = this.session.leafId ? byId.get(this.session.leafId) : undefined;
+        while (current) {
+            path.unshift(current);
+            current = current.parentId ? byId.get(current.parentId) : undefined;
+        }
+        return path;
+    }
+
+    /**
+     * Add a message after the current leaf and make it the new leaf
+     */
+    append(message: NewMessage): SessionMessage {
+        return this.add(message, this.session.leafId);
+    }
+
+    /**
+     * Add an alternative to an existing message (same parent) and switch to it
+     */
+    branchFrom(messageId: string, message: NewMessage): SessionMessage {
+        const original = this.get(messageId);
+        if (!original) {
+            throw new Error('The message to branch from no longer exists.');
+        }
+        return this.add(message, original.parentId);
+    }
+
+    /**
+     * Show the branch containing a message, following its most recent
+     * continuation down to a leaf
+     */
+    switchTo(messageId: string): void {
+        let current = this.get(messageId);
+        while (current) {
+            this.session.leafId = current.id;
+            const children = this.getChildren(current.id);
+            current = children[children.length - 1];
+        }
+    }
+
+    /**
+     * The sibling `offset` places before or after a message, if any
+     */
+    getSibling(messageId: string, offset: number): SessionMessage | undefined {
+        const message = this.get(messageId);
+        if (!message) {
+            return undefined;
+        }
+        const siblings = this.getChildren(message.parentId);
+        return siblings[siblings.findIndex(m => m.id === messageId) + offset];
+    }
+
+    getSiblingInfo(messageId: string): SiblingInfo | undefined {
+        const message = this.get(messageId);
+        if (!message) {
+            return undefined;
+        }
+        const siblings = this.getChildren(message.parentId);
+        return siblings.length > 1
+            ? { index: siblings.findIndex(m => m.id === messageId) + 1, count: siblings.length }
+            : undefined;
+    }
+
+    get(messageId: string): SessionMessage | undefined {
+        return this.session.messages.find(m => m.id === messageId);
+    }
+
+    private getChildren(parentId: string | undefined): SessionMessage[] {
+        return this.session.messages.filter(m => m.parentId === parentId);
+    }
+
+    private add(message: NewMessage, parentId: string | undefined): SessionMessage {
+        const node: SessionMessage = { ...message, id: uuidv4(), parentId };
+        this.session.messages.push(node);
+        this.session.leafId = node.id;
+        return node;
+    }
+}
@@ -0,0 +1,306 @@
+import * as vscode from 'vscode';
+import axios from 'axios';
+import { BackendKind, BackendModel, LlmBackend } from '../api/LlmBackend';
+import { OllamaClient } from '../api/OllamaClient';
+import { OpenAICompatibleClient } from '../api/OpenAICompatibleClient';
+import { OllamaError } from '../api/RequestPolicy';
+import { DebugService } from './DebugService';
+
+export interface EndpointConfig {
+    name: string;
+    url: string;
+    /** Which API the server speaks */
+    type: BackendKind;
+    /** Bearer token for OpenAI-compatible servers that require one */
+    apiKey?: string;
+    /** Lower numbers are preferred */
+    priority: number;
+    enabled: boolean;
+}
+
+export interface EndpointStatus {
+    config: EndpointConfig;
+    client: LlmBackend;
+    healthy: boolean;
+    lastChecked?: Date;
+    lastError?: string;
+    models: BackendModel[];
+}
+
+export interface EndpointModel extends BackendModel {
+    endpoint: string;
+}
+
+export type EndpointPurpose = 'chat' | 'completion';
+
+const DEFAULT_ENDPOINT_NAME = 'default';
+
+/**
+ * Keeps track of the configured Ollama endpoints, probes their health in the
+ * background and picks which one serves chat and code completion requests.
+ */
+export class EndpointManager implements vscode.Disposable {
+    private static instance: EndpointManager;
+    private endpoints: EndpointStatus[] = [];
+    private healthTimer?: NodeJS.Timeout;
+    private debugService: DebugService;
+    private disposables: vscode.Disposable[] = [];
+    private readonly _onDidChangeHealth = new vscode.EventEmitter<EndpointStatus[]>();
+    public readonly onDidChangeHealth = this._onDidChangeHealth.event;
+
+    private constructor(private outputChannel: vscode.OutputChannel) {
+        this.debugService = DebugService.getInstance(outputChannel);
+        this.loadEndpoints();
+
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration((e) => {
+            if (e.affectsConfiguration('duvut-assistant.endpoints') ||
+                e.affectsConfiguration('duvut-assistant.ollamaBaseUrl')) {
+                this.loadEndpoints();
+                void this.checkHealth();
+            }
+            if (e.affectsConfiguration('duvut-assistant.healthCheckInterval')) {
+                this.startHealthChecks();
+            }
+        }));
+    }
+
+    public static getInstance(outputChannel: vscode.OutputChannel): EndpointManager {
+        if (!EndpointManager.instance) {
+            EndpointManager.instance = new EndpointManager(outputChannel);
+        }
+        return EndpointManager.instance;
+    }
+
+    /**
+     * Read the endpoint list from settings. Without any configured endpoints the
+     * legacy `ollamaBaseUrl` setting becomes a single default endpoint.
+     */
+    private loadEndpoints(): void {
+        const config = vscode.workspace.getConfiguration('duvut-assistant');
+        const configured = config.get<Partial<EndpointConfig>[]>('endpoints', []);
+
+        let endpointConfigs: EndpointConfig[] = configured
+            .filter(e => e && e.name && e.url)
+            .map(e => ({
+                name: e.name!,
+                url: e.url!.replace(/\/+$/, ''),
+                type: e.type === 'openai' ? 'openai' as const : 'ollama' as const,
+                apiKey: e.apiKey,
+                priority: e.priority ?? 100,
+                enabled: e.enabled ?? true
+            }));
+
+        if (endpointConfigs.length === 0) {
+            endpointConfigs = [{
+                name: DEFAULT_ENDPOINT_NAME,
+                url: config.get('ollamaBaseUrl', 'http://localhost:11434'),
+                type: 'ollama',
+                priority: 0,
+                enabled: true
+            }];
+        }
+
+        // Keep health information for endpoints whose connection settings did not change
+        const previous = new Map(this.endpoints.map(e => [e.config.name, e]));
+        this.endpoints = endpointConfigs
+            .sort((a, b) => a.priority - b.priority)
+            .map(endpointConfig => {
+                const existing = previous.get(endpointConfig.name);
+                if (existing && existing.config.url === endpointConfig.url &&
+                    existing.config.type === endpointConfig.type && existing.config.apiKey === endpointConfig.apiKey) {
+                    return { ...existing, config: endpointConfig };
+                }
+                return {
+                    config: endpointConfig,
+                    client: this.createBackend(endpointConfig),
+                    // Assume reachable until the first probe says otherwise
+                    healthy: true,
+                    models: []
+                };
+            });
+
+        this.debugService.log('EndpointManager', 'Loaded endpoints', this.endpoints.map(e => e.config));
+    }
+
+    private createBackend(endpointConfig: EndpointConfig): LlmBackend {
+        if (endpointConfig.type === 'openai') {
+            return new OpenAICompatibleClient(endpointConfig.url, endpointConfig.apiKey, this.outputChannel);
+        }
+        return new OllamaClient(this.outputChannel, endpointConfig.url);
+    }
+
+    /**
+     * Start (or restart) the periodic health probes
+     */
+    startHealthChecks(): void {
+        if (this.healthTimer) {
+            clearInterval(this.healthTimer);
+        }
+        const seconds = vscode.workspace.getConfiguration('duvut-assistant').get('healthCheckInterval', 30);
+        this.healthTimer = setInterval(() => void this.checkHealth(), Math.max(5, seconds) * 1000);
+        void this.checkHealth();
+    }
+
+    /**
+     * Probe every enabled endpoint and refresh its model inventory
+     */
+    async checkHealth(): Promise<EndpointStatus[]> {
+        await Promise.all(this.getEnabledEndpoints().map(endpoint => this.probe(endpoint)));
+        this._onDidChangeHealth.fire(this.endpoints);
+        return this.endpoints;
+    }
+
+    private async probe(endpoint: EndpointStatus): Promise<void> {
+        const wasHealthy = endpoint.healthy;
+        try {
+            endpoint.models = await endpoint.client.listModels();
+            endpoint.healthy = true;
+            endpoint.lastError = undefined;
+        } catch (error) {
+            endpoint.healthy = false;
+            endpoint.lastError = error instanceof Error ? error.message : String(error);
+        }
+        endpoint.lastChecked = new Date();
+
+        if (wasHealthy !== endpoint.healthy) {
+            this.outputChannel.appendLine(`[Endpoints] ${endpoint.config.name} (${endpoint.config.url}) is now ${endpoint.healthy ? 'reachable' : 'unreachable'}`);
+        }
+    }
+
+    getEndpoints(): EndpointStatus[] {
+        return this.endpoints;
+    }
+
+    getEndpoint(name: string): EndpointStatus | undefined {
+        return this.endpoints.find(e => e.config.name === name);
+    }
+
+    hasHealthyEndpoint(purpose: EndpointPurpose): boolean {
+        return this.getCandidates(purpose).some(e => e.healthy);
+    }
+
+    /**
+     * Models from every healthy endpoint, tagged with the endpoint that serves them
+     */
+    async listModels(refresh: boolean = false): Promise<EndpointModel[]> {
+        if (refresh) {
+            await this.checkHealth();
+        }
+        return this.getEnabledEndpoints()
+            .filter(e => e.healthy)
+            .flatMap(e => e.models.map(model => ({ ...model, endpoint: e.config.name })));
+    }
+
+    /**
+     * Endpoints to try for a request, best first. A pinned endpoint is used
+     * exclusively; otherwise healthy endpoints that have the model come first.
+     */
+    getCandidates(purpose: EndpointPurpose, model?: string): EndpointStatus[] {
+        const pinned = this.getPinnedEndpoint(purpose);
+        if (pinned) {
+            return [pinned];
+        }
+
+        const enabled = this.getEnabledEndpoints();
+        const score = (e: EndpointStatus) =>
+            (e.healthy ? 0 : 2) + (model && !e.models.some(m => m.name === model) ? 1 : 0);
+        // Array.prototype.sort is stable, so priority order is kept within a score
+        return [...enabled].sort((a, b) => score(a) - score(b));
+    }
+
+    getClient(purpose: EndpointPurpose, model?: string): LlmBackend {
+        const [best] = this.getCandidates(purpose, model);
+        if (!best) {
+            throw new Error('No Ollama endpoints are enabled. Check the duvut-assistant.endpoints setting.');
+        }
+        return best.client;
+    }
+
+    /**
+     * Run a request against the best endpoint, failing over to the next one when
+     * an endpoint cannot be reached
+     */
+    async withFailover<T>(purpose: EndpointPurpose, model: string | undefined, request: (client: LlmBackend) => Promise<T>): Promise<T> {
+        let lastError: unknown;
+        for (const endpoint of this.getCandidates(purpose, model)) {
+            try {
+                return await request(endpoint.client);
+            } catch (error) {
+                if (!this.isConnectionError(error)) {
+                    throw error;
+                }
+                this.markUnreachable(endpoint, error);
+                lastError = error;
+            }
+        }
+        throw lastError ?? new Error('No Ollama endpoints are enabled. Check the duvut-assistant.endpoints setting.');
+    }
+
+    /**
+     * Streaming variant of withFailover. Failover only happens before the first
+     * item is yielded - a stream that breaks half way is not restarted elsewhere.
+     */
+    async *streamWithFailover<T>(purpose: EndpointPurpose, model: string | undefined, request: (client: LlmBackend) => AsyncGenerator<T, void, unknown>): AsyncGenerator<T, void, unknown> {
+        let lastError: unknown;
+        for (const endpoint of this.getCandidates(purpose, model)) {
+            let started = false;
+            try {
+                for await (const item of request(endpoint.client)) {
+                    started = true;
+                    yield item;
+                }
+                return;
+            } catch (error) {
+                if (started || !this.isConnectionError(error)) {
+                    throw error;
+                }
+                this.markUnreachable(endpoint, error);
+                lastError = error;
+            }
+        }
+        throw lastError ?? new Error('No Ollama endpoints are enabled. Check the duvut-assistant.endpoints setting.');
+    }
+
+    private getPinnedEndpoint(purpose: EndpointPurpose): EndpointStatus | undefined {
+        const setting = purpose === 'chat' ? 'chatEndpoint' : 'completionEndpoint';
+        const name = vscode.workspace.getConfiguration('duvut-assistant').get<string>(setting, '');
+        if (!name) {
+            return undefined;
+        }
+        const endpoint = this.getEnabledEndpoints().find(e => e.config.name === name);
+        if (!endpoint) {
+            this.debugService.log('EndpointManager', `Pinned ${purpose} endpoint "${name}" not found or disabled, ignoring pin`);
+        }
+        return endpoint;
+    }
+
+    private getEnabledEndpoints(): EndpointStatus[] {
+        return this.endpoints.filter(e => e.config.enabled);
+    }
+
+    private markUnreachable(endpoint: EndpointStatus, error: unknown): void {
+        endpoint.healthy = false;
+        endpoint.lastError = error instanceof Error ? error.message : String(error);
+        endpoint.lastChecked = new Date();
+        this.outputChannel.appendLine(`[Endpoints] ${endpoint.config.name} unreachable, failing over: ${endpoint.lastError}`);
+        this._onDidChangeHealth.fire(this.endpoints);
+    }
+
+    private isConnectionError(error: unknown): boolean {
+        if (error instanceof OllamaError) {
+            return error.category === 'not_running';
+        }
+        if (axios.isAxiosError(error)) {
+            return !error.response && ['ECONNREFUSED', 'ENOTFOUND', 'EHOSTUNREACH', 'ECONNRESET', 'ETIMEDOUT'].includes(error.code || '');
+        }
+        return error instanceof Error && /^(Cannot|Failed to) connect to/.test(error.message);
+    }
+
+    dispose(): void {
+        if (this.healthTimer) {
+            clearInterval(this.healthTimer);
+        }
+        this.disposables.forEach(d => d.dispose());
+        this._onDidChangeHealth.dispose();
+    }
+}
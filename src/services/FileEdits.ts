@@ -0,0 +1,383 @@
+import { applyPatch, ApplyPatchOptions, formatPatch, Hunk, ParsedDiff, parsePatch } from 'diff';
+
+/**
+ * One SEARCH/REPLACE block: the lines to find and what replaces them
+ */
+export interface SearchReplaceEdit {
+    search: string;
+    replace: string;
+}
+
+/**
+ * One file's part of a unified diff
+ */
+export interface FilePatch {
+    /** Workspace-relative path, undefined when neither the diff nor its code block names the file */
+    filePath?: string;
+    /** The diff starts from /dev/null */
+    created: boolean;
+    /** The diff ends in /dev/null */
+    deleted: boolean;
+    /** The hunks for this file alone, as a unified diff */
+    patch: string;
+}
+
+/**
+ * How one hunk of a unified diff went
+ */
+export interface HunkResult {
+    /** The `@@ -a,b +c,d @@` line of the hunk */
+    header: string;
+    applied: boolean;
+    /** 1-based line of the patched content where the hunk starts */
+    line: number;
+    /** Lines between where the header put the hunk and where it was found */
+    offset: number;
+    /** Some context lines did not match the file */
+    fuzzy: boolean;
+}
+
+export interface PatchResult {
+    content: string;
+    hunks: HunkResult[];
+}
+
+const SEARCH_MARKER = /^\s*<{5,9} ?SEARCH\s*$/;
+const DIVIDER = /^\s*={5,9}\s*$/;
+const REPLACE_MARKER = /^\s*>{5,9} ?REPLACE\s*$/;
+/** A comment line like `// Line 15-18:` or `# Line 7:` that starts a partial edit */
+const LINE_MARKER_PATTERN = /^\s*(?:\/\/|#|--)\s*Line\s+(\d+)(?:\s*-\s*(\d+))?:.*$/i;
+
+/** Context lines at either end of a hunk that may be dropped to place it, like `patch --fuzz` */
+const FUZZ_FACTOR = 2;
+/** Mark the lines a hunk expected and proposed where it did not apply */
+const CONFLICT_START = '<<<<<<< expected';
+const CONFLICT_DIVIDER = '=======';
+const CONFLICT_END = '>>>>>>> proposed';
+
+/**
+ * Ways of comparing lines, strictest first. Leading whitespace is only ignored
+ * as a last resort, and then the replacement is re-indented to match the file.
+ */
+const LINE_COMPARISONS: Array<(line: string) => string> = [
+    line => line,
+    line => line.trimEnd(),
+    line => line.trim()
+];
+
+export function hasSearchReplaceBlocks(code: string): boolean {
+    return code.split(/\r?\n/).some(line => SEARCH_MARKER.test(line));
+}
+
+export function hasLineMarkers(code: string): boolean {
+    return code.split(/\r?\n/).some(line => LINE_MARKER_PATTERN.test(line));
+}
+
+/**
+ * Read the SEARCH/REPLACE blocks of a code block:
+ *
+ *     <<<<<<< SEARCH
+ *     lines as they are now
+ *     =======
+ *     lines to put instead
+ *     >>>>>>> REPLACE
+ */
+export function parseSearchReplaceBlocks(code: string): SearchReplaceEdit[] {
+    const edits: SearchReplaceEdit[] = [];
+    let search: string[] | undefined;
+    let replace: string[] | undefined;
+
+    for (const line of code.split(/\r?\n/)) {
+        if (SEARCH_MARKER.test(line)) {
+            if (search) {
+                throw new Error('A SEARCH/REPLACE block starts before the previous one ends with >>>>>>> REPLACE.');
+            }
+            search = [];
+        } else if (search && !replace && DIVIDER.test(line)) {
+            replace = [];
+        } else if (replace && REPLACE_MARKER.test(line)) {
+            edits.push({ search: search!.join('\n'), replace: replace.join('\n') });
+            search = undefined;
+            replace = undefined;
+        } else if (replace) {
+            replace.push(line);
+        } else if (search) {
+            search.push(line);
+        }
+    }
+    if (search) {
+        throw new Error('A SEARCH/REPLACE block is not closed with >>>>>>> REPLACE.');
+    }
+    return edits;
+}
+
+/**
+ * Without the blank lines at the start and end, which models add or drop freely
+ */
+function trimBlankLines(lines: string[]): string[] {
+    let start = 0;
+    let end = lines.length;
+    while (start < end && !lines[start].trim()) start++;
+    while (end > start && !lines[end - 1].trim()) end--;
+    return lines.slice(start, end);
+}
+
+function leadingWhitespace(line: string): string {
+    return line.match(/^\s*/)![0];
+}
+
+/**
+ * Shift the replacement by the difference between the indentation the model
+ * used and the indentation found in the file
+ */
+function reindent(lines: string[], modelIndent: string, fileIndent: string): string[] {
+    return lines.map(line => {
+        if (!line.trim()) return line;
+        const rest = line.startsWith(modelIndent) ? line.substring(modelIndent.length) : line.trimStart();
+        return fileIndent + rest;
+    });
+}
+
+function describeSearch(search: string[]): string {
+    const preview = search.slice(0, 3).join('\n');
+    return search.length > 3 ? `${preview}\n...` : preview;
+}
+
+/**
+ * Apply SEARCH/REPLACE blocks in order. Each SEARCH part has to match exactly
+ * one place in the file; whitespace at line ends and, failing that, indentation
+ * are ignored when looking for it. Throws with the block that could not be
+ * placed, so nothing is half applied.
+ */
+export function applySearchReplace(content: string, edits: SearchReplaceEdit[], filePath: string): string {
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    let lines = content ? content.split(/\r?\n/) : [];
+
+    for (const [index, edit] of edits.entries()) {
+        const search = trimBlankLines(edit.search.split('\n'));
+        const replace = edit.replace.split('\n');
+
+        // An empty SEARCH part adds the replacement at the end, e.g. to fill a new file
+        if (search.length === 0) {
+            lines = [...trimBlankLines(lines), ...trimBlankLines(replace)];
+            continue;
+        }
+
+        let matches: number[] = [];
+        let comparison = 0;
+        for (; comparison < LINE_COMPARISONS.length; comparison++) {
+            const normalize = LINE_COMPARISONS[comparison];
+            const wanted = search.map(normalize);
+            matches = [];
+            for (let start = 0; start + wanted.length <= lines.length; start++) {
+                if (wanted.every((line, offset) => normalize(lines[start + offset]) === line)) {
+                    matches.push(start);
+                }
+            }
+            if (matches.length > 0) break;
+        }
+
+        const block = edits.length > 1 ? `SEARCH block ${index + 1} of ${edits.length}` : 'The SEARCH block';
+        if (matches.length === 0) {
+            throw new Error(`${block} was not found in ${filePath}:\n${describeSearch(search)}`);
+        }
+        if (matches.length > 1) {
+            throw new Error(`${block} matches ${matches.length} places in ${filePath} (lines ${matches.map(start => start + 1).join(', ')}); it needs more surrounding lines to be unique:\n${describeSearch(search)}`);
+        }
+
+        const start = matches[0];
+        const replacement = comparison === LINE_COMPARISONS.length - 1
+            ? reindent(replace, leadingWhitespace(search[0]), leadingWhitespace(lines[start]))
+            : replace;
+        lines.splice(start, search.length, ...(edit.replace ? replacement : []));
+    }
+    return lines.join(eol);
+}
+
+/**
+ * Apply a partial edit: code made of sections that each start with a
+ * `// Line 15-18:` comment and replace those lines of the file. Returns
+ * undefined when the code is not such an edit or a range does not fit the file.
+ */
+export function mergePartialEdit(current: string, code: string): string | undefined {
+    const sections: Array<{ start: number; end: number; lines: string[] }> = [];
+    for (const line of code.split(/\r?\n/)) {
+        const marker = line.match(LINE_MARKER_PATTERN);
+        if (marker) {
+            const start = parseInt(marker[1], 10);
+            sections.push({ start, end: marker[2] ? parseInt(marker[2], 10) : start, lines: [] });
+        } else if (sections.length > 0) {
+            sections[sections.length - 1].lines.push(line);
+        } else if (line.trim()) {
+            return undefined;
+        }
+    }
+    if (sections.length === 0) {
+        return undefined;
+    }
+
+    const eol = current.includes('\r\n') ? '\r\n' : '\n';
+    const lines = current.split(/\r?\n/);
+    // Bottom-up, so earlier line numbers stay valid
+    sections.sort((a, b) => b.start - a.start);
+    let limit = lines.length;
+    for (const section of sections) {
+        if (section.start < 1 || section.end < section.start || section.end > limit) {
+            return undefined;
+        }
+        lines.splice(section.start - 1, section.end - section.start + 1, ...trimBlankLines(section.lines));
+        limit = section.start - 1;
+    }
+    return lines.join(eol);
+}
+
+/**
+ * Whether a code block is a unified diff: it has `@@` hunk headers with line
+ * numbers or `---`/`+++` file headers, or is fenced as a diff
+ */
+export function isUnifiedDiff(code: string, language = ''): boolean {
+    if (!/^@@.*@@/m.test(code)) {
+        return false;
+    }
+    return /^(diff|patch)$/i.test(language)
+        || /^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@/m.test(code)
+        || (/^--- /m.test(code) && /^\+\+\+ /m.test(code));
+}
+
+/**
+ * The path a diff header names, without the a/ and b/ prefixes git adds.
+ * Undefined for /dev/null and missing names.
+ */
+function toDiffPath(name: string | undefined, prefix: string): string | undefined {
+    if (!name || name === '/dev/null') {
+        return undefined;
+    }
+    return name.startsWith(prefix) ? name.substring(prefix.length) : name.replace(/^\.\//, '');
+}
+
+/**
+ * Models get the line counts of hunk headers wrong and sometimes leave out the
+ * numbers altogether, so counts are taken from the hunk lines and a missing
+ * start becomes line 1; the hunk is looked for around there anyway.
+ */
+function normalizeHunk(hunk: Hunk): Hunk {
+    const lines = hunk.lines.filter(line => !line.startsWith('\\'));
+    const oldLines = lines.filter(line => !line.startsWith('+')).length;
+    const newLines = lines.filter(line => !line.startsWith('-')).length;
+    return {
+        oldStart: Number.isFinite(hunk.oldStart) && hunk.oldStart > 0 ? hunk.oldStart : 1,
+        oldLines,
+        newStart: Number.isFinite(hunk.newStart) && hunk.newStart > 0 ? hunk.newStart : 1,
+        newLines,
+        lines: hunk.lines
+    };
+}
+
+function hunkHeader(hunk: Hunk): string {
+    return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+/**
+ * Split a unified diff into one patch per file. `defaultPath` is used for
+ * hunks without file headers, e.g. when the code block header names the file.
+ */
+export function splitUnifiedDiff(code: string, defaultPath?: string): FilePatch[] {
+    const hasHeaders = /^--- a\//m.test(code) || /^\+\+\+ b\//m.test(code);
+    return parsePatch(code)
+        .filter(file => file.hunks.length > 0)
+        .map(file => {
+            const created = file.oldFileName === '/dev/null';
+            const deleted = file.newFileName === '/dev/null';
+            const filePath = toDiffPath(file.newFileName, hasHeaders ? 'b/' : '')
+                ?? toDiffPath(file.oldFileName, hasHeaders ? 'a/' : '')
+                ?? defaultPath;
+            const patch: ParsedDiff = {
+                oldFileName: created ? '/dev/null' : filePath,
+                newFileName: deleted ? '/dev/null' : filePath,
+                oldHeader: '',
+                newHeader: '',
+                hunks: file.hunks.map(normalizeHunk)
+            };
+            return { filePath, created, deleted, patch: formatPatch(patch) };
+        });
+}
+
+/**
+ * The hunk without up to `fuzz` context lines at its start and end, or
+ * undefined when nothing would be left to anchor it to the file
+ */
+function withoutOuterContext(hunk: Hunk, fuzz: number): Hunk | undefined {
+    let start = 0;
+    let end = hunk.lines.length;
+    while (start < fuzz && start < end && hunk.lines[start].startsWith(' ')) start++;
+    while (hunk.lines.length - end < fuzz && end > start && hunk.lines[end - 1].startsWith(' ')) end--;
+    const lines = hunk.lines.slice(start, end);
+    if (!lines.some(line => line.startsWith(' ') || line.startsWith('-'))) {
+        return undefined;
+    }
+    return normalizeHunk({ ...hunk, oldStart: hunk.oldStart + start, lines });
+}
+
+/**
+ * Apply a unified diff hunk by hunk. Each hunk is looked for around the line
+ * its header gives: exactly, then ignoring whitespace, then without up to
+ * FUZZ_FACTOR context lines at its ends. Hunks that cannot be placed are left
+ * between conflict markers at the line the header gives, for the user to
+ * resolve in the preview.
+ */
+export function applyUnifiedDiff(content: string, patch: string): PatchResult {
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    let patched = content.replace(/\r\n/g, '\n');
+    const hunks = parsePatch(patch).flatMap(file => file.hunks.map(normalizeHunk));
+    const results: HunkResult[] = [];
+    const exact: ApplyPatchOptions = { compareLine: (_line, line, _operation, patchLine) => line === patchLine };
+    // Lines past the end of the file come in as undefined
+    const loose: ApplyPatchOptions = { compareLine: (_line, line: string | undefined, _operation, patchLine) => line?.trim() === patchLine.trim() };
+    // Lines added and removed by the hunks above, which moves the ones below
+    let shift = 0;
+
+    for (const hunk of hunks) {
+        const header = hunkHeader(hunk);
+        const moved: Hunk = { ...hunk, oldStart: hunk.oldStart + shift };
+        const attempts: Array<{ hunk?: Hunk; options: ApplyPatchOptions }> = [
+            { hunk: moved, options: exact },
+            { hunk: moved, options: loose }
+        ];
+        for (let fuzz = 1; fuzz <= FUZZ_FACTOR; fuzz++) {
+            attempts.push({ hunk: withoutOuterContext(moved, fuzz), options: loose });
+        }
+
+        let applied = false;
+        for (const [index, attempt] of attempts.entries()) {
+            if (!attempt.hunk) continue;
+            const result = applyPatch(patched, { hunks: [attempt.hunk] }, attempt.options);
+            if (result === false) continue;
+
+            // applyPatch records on the hunk how far from its start it was found
+            const offset = (attempt.hunk as Hunk & { offset?: number }).offset || 0;
+            const line = attempt.hunk.oldStart + offset - (attempt.hunk.oldStart - moved.oldStart);
+            results.push({ header, applied: true, line, offset: line - moved.oldStart, fuzzy: index >= 2 });
+            patched = result;
+            shift += attempt.hunk.newLines - attempt.hunk.oldLines;
+            applied = true;
+            break;
+        }
+        if (applied) continue;
+
+        const lines = patched.split('\n');
+        const at = Math.min(Math.max(moved.oldStart - 1, 0), lines.length);
+        const body = hunk.lines.filter(line => !line.startsWith('\\'));
+        const conflict = [
+            `${CONFLICT_START} (${header} did not apply)`,
+            ...body.filter(line => !line.startsWith('+')).map(line => line.substring(1)),
+            CONFLICT_DIVIDER,
+            ...body.filter(line => !line.startsWith('-')).map(line => line.substring(1)),
+            CONFLICT_END
+        ];
+        lines.splice(at, 0, ...conflict);
+        patched = lines.join('\n');
+        results.push({ header, applied: false, line: at + 1, offset: 0, fuzzy: false });
+        shift += conflict.length;
+    }
+    return { content: patched.split('\n').join(eol), hunks: results };
+}
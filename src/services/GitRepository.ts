@@ -0,0 +1,26 @@
+import * as vscode from 'vscode';
+
+/**
+ * The parts of the built-in Git extension's repository API used by the assistant
+ */
+export interface GitRepository {
+    rootUri: vscode.Uri;
+    inputBox: { value: string };
+    diff(cached?: boolean): Promise<string>;
+}
+
+/**
+ * First repository known to the built-in Git extension
+ */
+export async function getGitRepository(): Promise<GitRepository> {
+    const extension = vscode.extensions.getExtension('vscode.git');
+    if (!extension) {
+        throw new Error('The Git extension is not available');
+    }
+    const git = extension.isActive ? extension.exports : await extension.activate();
+    const repository: GitRepository | undefined = git.getAPI(1).repositories[0];
+    if (!repository) {
+        throw new Error('No Git repository found in the workspace');
+    }
+    return repository;
+}
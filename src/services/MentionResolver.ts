@@ -0,0 +1,301 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ChatMessage } from '../api/LlmBackend';
+import { ToolsService } from '../tools/ToolsService';
+import { DebugService } from './DebugService';
+import { getGitRepository } from './GitRepository';
+
+export type MentionKind = 'file' | 'folder' | 'selection' | 'problems' | 'terminal' | 'git-diff' | 'symbol';
+
+/**
+ * An `@` mention as typed or picked in the chat input
+ */
+export interface Mention {
+    kind: MentionKind;
+    /** Path or symbol name for `@file`, `@folder` and `@symbol` */
+    value?: string;
+}
+
+/**
+ * A mention with the context it stands for, stored on the user message
+ */
+export interface ResolvedMention extends Mention {
+    label: string;
+    content: string;
+}
+
+export interface MentionSuggestion extends Mention {
+    label: string;
+    detail?: string;
+}
+
+/** Mentions that need a value after a colon, e.g. `@file:src/app.ts` */
+const VALUE_KINDS: MentionKind[] = ['file', 'folder', 'symbol'];
+const MENTION_PATTERN = /(?:^|\s)@(file|folder|symbol):(\S+)|(?:^|\s)@(selection|problems|terminal|git-diff)(?=\s|$)/g;
+const EXCLUDE_GLOB = '**/{node_modules,.git,out,dist}/**';
+
+/** Longest text a single mention may add to a message */
+const MAX_MENTION_CHARS = 12000;
+const MAX_PROBLEMS = 50;
+const TERMINAL_LINES = 100;
+const MAX_SUGGESTIONS = 20;
+/** Workspace file list used for suggestions is reused while the user types */
+const FILE_CACHE_MS = 10000;
+
+/**
+ * Attach the context of a user message's mentions to its text, the way the
+ * model should see it
+ */
+export function withMentionContext<T extends ChatMessage & { mentions?: ResolvedMention[] }>(message: T): ChatMessage {
+    if (!message.mentions?.length) {
+        return message;
+    }
+    const attachments = message.mentions
+        .map(mention => `### ${mention.label}\n\`\`\`\n${mention.content}\n\`\`\``)
+        .join('\n\n');
+    return { ...message, content: `${message.content}\n\nAttached context:\n\n${attachments}` };
+}
+
+/**
+ * Turns `@file`, `@folder`, `@selection`, `@problems`, `@terminal`,
+ * `@git-diff` and `@symbol` mentions into the text they refer to, and offers
+ * completions for them while the user types.
+ */
+export class MentionResolver {
+    private debugService: DebugService;
+    private fileCache?: { files: string[]; expires: number };
+
+    constructor(
+        private toolsService: ToolsService,
+        outputChannel: vscode.OutputChannel
+    ) {
+        this.debugService = DebugService.getInstance(outputChannel);
+    }
+
+    /**
+     * Mentions typed out in full in the message text
+     */
+    parse(text: string): Mention[] {
+        const mentions: Mention[] = [];
+        for (const match of text.matchAll(MENTION_PATTERN)) {
+            mentions.push(match[1]
+                ? { kind: match[1] as MentionKind, value: match[2] }
+                : { kind: match[3] as MentionKind });
+        }
+        return mentions;
+    }
+
+    /**
+     * Resolve mentions, skipping duplicates. Mentions that cannot be resolved
+     * are reported in `errors` rather than failing the message.
+     */
+    async resolve(mentions: Mention[]): Promise<{ resolved: ResolvedMention[]; errors: string[] }> {
+        const resolved: ResolvedMention[] = [];
+        const errors: string[] = [];
+        const seen = new Set<string>();
+
+        for (const mention of mentions) {
+            const label = this.getLabel(mention);
+            if (seen.has(label)) continue;
+            seen.add(label);
+
+            try {
+                const content = await this.resolveContent(mention);
+                resolved.push({
+                    ...mention,
+                    label,
+                    content: content.length > MAX_MENTION_CHARS
+                        ? content.substring(0, MAX_MENTION_CHARS) + '\n[... truncated]'
+                        : content
+                });
+            } catch (error) {
+                this.debugService.log('MentionResolver', `Could not resolve ${label}`, error);
+                errors.push(`${label}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+        return { resolved, errors };
+    }
+
+    /**
+     * Completions for the value of a `@file`, `@folder` or `@symbol` mention
+     */
+    async suggest(kind: MentionKind, query: string): Promise<MentionSuggestion[]> {
+        const needle = query.toLowerCase();
+        switch (kind) {
+            case 'file': {
+                const files = await this.getWorkspaceFiles();
+                return this.rank(files, needle).map(file => ({ kind, value: file, label: path.basename(file), detail: file }));
+            }
+            case 'folder': {
+                const folders = new Set<string>();
+                for (const file of await this.getWorkspaceFiles()) {
+                    for (let dir = path.posix.dirname(file); dir !== '.'; dir = path.posix.dirname(dir)) {
+                        folders.add(dir);
+                    }
+                }
+                return this.rank([...folders], needle).map(folder => ({ kind, value: folder, label: folder }));
+            }
+            case 'symbol': {
+                if (!query) return [];
+                const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+                    'vscode.executeWorkspaceSymbolProvider', query
+                ) || [];
+                return symbols.slice(0, MAX_SUGGESTIONS).map(symbol => ({
+                    kind,
+                    value: symbol.name,
+                    label: symbol.name,
+                    detail: `${vscode.SymbolKind[symbol.kind]} · ${vscode.workspace.asRelativePath(symbol.location.uri)}`
+                }));
+            }
+            default:
+                return [];
+        }
+    }
+
+    getLabel(mention: Mention): string {
+        return VALUE_KINDS.includes(mention.kind) ? `@${mention.kind}:${mention.value}` : `@${mention.kind}`;
+    }
+
+    private async resolveContent(mention: Mention): Promise<string> {
+        if (VALUE_KINDS.includes(mention.kind) && !mention.value) {
+            throw new Error('No name given');
+        }
+        switch (mention.kind) {
+            case 'file':
+                return this.toolsService.readFile(mention.value!);
+            case 'folder':
+                return this.resolveFolder(mention.value!);
+            case 'selection':
+                return this.resolveSelection();
+            case 'problems':
+                return this.resolveProblems();
+            case 'terminal':
+                return this.resolveTerminal();
+            case 'git-diff':
+                return this.resolveGitDiff();
+            case 'symbol':
+                return this.resolveSymbol(mention.value!);
+        }
+    }
+
+    private async resolveFolder(folder: string): Promise<string> {
+        const prefix = folder.replace(/\/+$/, '') + '/';
+        const files = (await this.getWorkspaceFiles()).filter(file => file.startsWith(prefix));
+        if (files.length === 0) {
+            throw new Error('Folder not found or empty');
+        }
+        return `Files in ${folder}:\n${files.join('\n')}`;
+    }
+
+    private resolveSelection(): string {
+        const editor = vscode.window.activeTextEditor;
+        const selectedText = this.toolsService.getSelectedText();
+        if (!editor || !selectedText) {
+            throw new Error('Nothing is selected in the editor');
+        }
+        const { start, end } = editor.selection;
+        return `${vscode.workspace.asRelativePath(editor.document.uri)}, lines ${start.line + 1}-${end.line + 1}:\n${selectedText}`;
+    }
+
+    private resolveProblems(): string {
+        const problems: string[] = [];
+        for (const [uri, diagnostics] of vscode.languages.getDiagnostics()) {
+            for (const diagnostic of diagnostics) {
+                if (diagnostic.severity > vscode.DiagnosticSeverity.Warning) continue;
+                const severity = diagnostic.severity === vscode.DiagnosticSeverity.Error ? 'Error' : 'Warning';
+                const { line, character } = diagnostic.range.start;
+                problems.push(`${vscode.workspace.asRelativePath(uri)}:${line + 1}:${character + 1} ${severity}: ${diagnostic.message}` +
+                    (diagnostic.source ? ` (${diagnostic.source})` : ''));
+            }
+        }
+        if (problems.length === 0) {
+            return 'No errors or warnings.';
+        }
+        return problems.length > MAX_PROBLEMS
+            ? `${problems.slice(0, MAX_PROBLEMS).join('\n')}\n... and ${problems.length - MAX_PROBLEMS} more`
+            : problems.join('\n');
+    }
+
+    /**
+     * VS Code has no API to read terminal output, so the active terminal's
+     * buffer is copied through the clipboard, which is restored afterwards
+     */
+    private async resolveTerminal(): Promise<string> {
+        if (!vscode.window.activeTerminal) {
+            throw new Error('No terminal is open');
+        }
+        const clipboard = await vscode.env.clipboard.readText();
+        try {
+            await vscode.commands.executeCommand('workbench.action.terminal.selectAll');
+            await vscode.commands.executeCommand('workbench.action.terminal.copySelection');
+            await vscode.commands.executeCommand('workbench.action.terminal.clearSelection');
+            const output = (await vscode.env.clipboard.readText()).trimEnd();
+            return `${vscode.window.activeTerminal.name}:\n${output.split('\n').slice(-TERMINAL_LINES).join('\n')}`;
+        } finally {
+            await vscode.env.clipboard.writeText(clipboard);
+        }
+    }
+
+    /**
+     * Staged and unstaged changes from the built-in Git extension
+     */
+    private async resolveGitDiff(): Promise<string> {
+        const repository = await getGitRepository();
+        const [staged, unstaged] = await Promise.all([repository.diff(true), repository.diff(false)]);
+        const diff = [staged, unstaged].filter(part => part.trim()).join('\n');
+        return diff || 'No uncommitted changes.';
+    }
+
+    private async resolveSymbol(name: string): Promise<string> {
+        const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+            'vscode.executeWorkspaceSymbolProvider', name
+        ) || [];
+        const symbol = symbols.find(s => s.name === name) || symbols[0];
+        if (!symbol) {
+            throw new Error('Symbol not found');
+        }
+
+        // Workspace symbols often only cover the name; the document symbol has the full body
+        const document = await vscode.workspace.openTextDocument(symbol.location.uri);
+        const documentSymbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+            'vscode.executeDocumentSymbolProvider', document.uri
+        ) || [];
+        const range = this.findSymbolRange(documentSymbols, symbol) || symbol.location.range;
+        return `${vscode.workspace.asRelativePath(document.uri)}, line ${range.start.line + 1}:\n${document.getText(range)}`;
+    }
+
+    private findSymbolRange(symbols: vscode.DocumentSymbol[], target: vscode.SymbolInformation): vscode.Range | undefined {
+        for (const symbol of symbols) {
+            // Results may be SymbolInformation for providers without hierarchy support
+            if (!symbol.range) continue;
+            if (symbol.name === target.name && symbol.range.contains(target.location.range.start)) {
+                return symbol.range;
+            }
+            const child = this.findSymbolRange(symbol.children || [], target);
+            if (child) {
+                return child;
+            }
+        }
+        return undefined;
+    }
+
+    private async getWorkspaceFiles(): Promise<string[]> {
+        if (this.fileCache && this.fileCache.expires > Date.now()) {
+            return this.fileCache.files;
+        }
+        const uris = await vscode.workspace.findFiles('**/*', EXCLUDE_GLOB, 5000);
+        const files = uris.map(uri => vscode.workspace.asRelativePath(uri, false)).sort();
+        this.fileCache = { files, expires: Date.now() + FILE_CACHE_MS };
+        return files;
+    }
+
+    /**
+     * Paths containing the query, matches in the file name first
+     */
+    private rank(paths: string[], needle: string): string[] {
+        const matches = paths.filter(p => p.toLowerCase().includes(needle));
+        const inName = matches.filter(p => path.posix.basename(p).toLowerCase().includes(needle));
+        const inPath = matches.filter(p => !path.posix.basename(p).toLowerCase().includes(needle));
+        return [...inName, ...inPath].slice(0, MAX_SUGGESTIONS);
+    }
+}
@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import { ResponseStats } from '../api/LlmBackend';
+
+export interface ModelMetrics {
+    model: string;
+    samples: number;
+    tokensPerSecond?: number;
+    timeToFirstTokenMs?: number;
+    loadDurationMs?: number;
+}
+
+/**
+ * Collects the stats of recent chat responses and shows rolling per-model
+ * averages in the status bar, to help pick a model size that suits the hardware.
+ */
+export class MetricsService implements vscode.Disposable {
+    private static instance: MetricsService;
+    private static readonly WINDOW_SIZE = 20;
+
+    private samples = new Map<string, ResponseStats[]>();
+    private lastModel?: string;
+    private statusBarItem: vscode.StatusBarItem;
+    private disposables: vscode.Disposable[] = [];
+
+    private constructor() {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+        this.statusBarItem.name = 'Duvut Model Performance';
+
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration((e) => {
+            if (e.affectsConfiguration('duvut-assistant.metrics.showInStatusBar')) {
+                this.updateStatusBar();
+            }
+        }));
+    }
+
+    public static getInstance(): MetricsService {
+        if (!MetricsService.instance) {
+            MetricsService.instance = new MetricsService();
+        }
+        return MetricsService.instance;
+    }
+
+    record(stats: ResponseStats): void {
+        const samples = this.samples.get(stats.model) || [];
+        samples.push(stats);
+        if (samples.length > MetricsService.WINDOW_SIZE) {
+            samples.shift();
+        }
+        this.samples.set(stats.model, samples);
+        this.lastModel = stats.model;
+        this.updateStatusBar();
+    }
+
+    /**
+     * Rolling averages over the last WINDOW_SIZE responses of each model
+     */
+    getModelMetrics(): ModelMetrics[] {
+        return Array.from(this.samples.entries()).map(([model, samples]) => ({
+            model,
+            samples: samples.length,
+            tokensPerSecond: this.average(samples.map(s => s.tokensPerSecond)),
+            timeToFirstTokenMs: this.average(samples.map(s => s.timeToFirstTokenMs)),
+            // A load time of ~0 means the model was already in memory, which says nothing about load cost
+            loadDurationMs: this.average(samples.map(s => s.loadDurationMs).filter(ms => ms !== undefined && ms > 100))
+        }));
+    }
+
+    private average(values: (number | undefined)[]): number | undefined {
+        const defined = values.filter((v): v is number => v !== undefined);
+        return defined.length > 0 ? defined.reduce((sum, v) => sum + v, 0) / defined.length : undefined;
+    }
+
+    private updateStatusBar(): void {
+        const enabled = vscode.workspace.getConfiguration('duvut-assistant').get('metrics.showInStatusBar', true);
+        const metrics = this.getModelMetrics();
+        const current = metrics.find(m => m.model === this.lastModel);
+        if (!enabled || !current) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const parts = [current.model];
+        if (current.tokensPerSecond !== undefined) {
+            parts.push(`${current.tokensPerSecond.toFixed(1)} tok/s`);
+        }
+        if (current.timeToFirstTokenMs !== undefined) {
+            parts.push(`TTFT ${formatDuration(current.timeToFirstTokenMs)}`);
+        }
+        this.statusBarItem.text = `$(pulse) ${parts.join(' · ')}`;
+
+        const tooltip = new vscode.MarkdownString(`**Duvut model performance** (last ${MetricsService.WINDOW_SIZE} responses per model)\n\n`);
+        tooltip.appendMarkdown('| Model | Responses | Tokens/s | First token | Load |\n|---|---|---|---|---|\n');
+        for (const m of metrics) {
+            tooltip.appendMarkdown(`| ${m.model} | ${m.samples} | ${m.tokensPerSecond?.toFixed(1) ?? '-'} | ${formatDuration(m.timeToFirstTokenMs)} | ${formatDuration(m.loadDurationMs)} |\n`);
+        }
+        this.statusBarItem.tooltip = tooltip;
+        this.statusBarItem.show();
+    }
+
+    dispose(): void {
+        this.statusBarItem.dispose();
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+function formatDuration(ms?: number): string {
+    if (ms === undefined) {
+        return '-';
+    }
+    return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
@@ -0,0 +1,203 @@
+import * as vscode from 'vscode';
+import { RequestOptions } from '../api/LlmBackend';
+import { DebugService } from './DebugService';
+
+/**
+ * How tools are offered: `native` uses the API's function calling (falling back
+ * to XML when the model rejects it), `xml` only uses the XML tool tags
+ */
+export type ToolCallStyle = 'native' | 'xml';
+
+/**
+ * Tuning for the models whose name matches `match`
+ */
+export interface ModelProfile {
+    name: string;
+    /** Globs (`qwen2.5-coder:*`) or regular expressions (`/^deepseek/i`) matched against the model name */
+    match: string | string[];
+    /** Added to the system prompt after the common instructions */
+    systemPrompt?: string;
+    temperature?: number;
+    topP?: number;
+    /** Context window to request, unless `context.modelContextLengths` sets one */
+    numCtx?: number;
+    stop?: string[];
+    toolCallStyle?: ToolCallStyle;
+    /** Fill-in-the-middle prompt for code completion, with `{{prefix}}` and `{{suffix}}` */
+    fimTemplate?: string;
+}
+
+/**
+ * The settings that apply to one model, each taken from the first matching
+ * profile that sets it
+ */
+export interface ResolvedModelProfile extends Omit<ModelProfile, 'name' | 'match'> {
+    /** Matching profiles, most specific first */
+    names: string[];
+}
+
+const PROFILES_FILE = '.duvut/models.json';
+
+const BUILT_IN_PROFILES: ModelProfile[] = [
+    {
+        name: 'codellama',
+        match: '/codellama/i',
+        systemPrompt: `**CODE ANALYSIS**: You have access to the current file content through the workspace context. The code you need to analyze is provided in the user message. Work directly with this code.`,
+        toolCallStyle: 'xml',
+        stop: ['<EOT>'],
+        fimTemplate: '<PRE> {{prefix}} <SUF>{{suffix}} <MID>'
+    },
+    {
+        name: 'qwen-coder',
+        match: '/qwen[\\d.]*-coder/i',
+        fimTemplate: '<|fim_prefix|>{{prefix}}<|fim_suffix|>{{suffix}}<|fim_middle|>'
+    },
+    {
+        name: 'qwen',
+        match: '/qwen/i',
+        systemPrompt: `**WORKSPACE ACCESS FOR QWEN MODELS**: You have full access to the current workspace and file content. The workspace context provided in the user message contains the actual file content that you can analyze and work with. When a user asks you to review, analyze, or work with code, the code is already available to you in the workspace context. You do NOT need to ask the user to provide the code - it's already there for you to analyze.
+
+**IMPORTANT FOR QWEN**: The workspace context includes the current file content. You can see and analyze the code that is currently open in the editor. Work directly with the code provided in the context.`
+    },
+    {
+        name: 'deepseek-coder',
+        match: '/deepseek-coder/i',
+        fimTemplate: '<｜fim▁begin｜>{{prefix}}<｜fim▁hole｜>{{suffix}}<｜fim▁end｜>'
+    },
+    {
+        name: 'deepseek',
+        match: '/deepseek/i',
+        systemPrompt: `**WORKSPACE CONTEXT**: You can access the current file content through the workspace context provided in the user message. Analyze and work with the code that is available in the context.`
+    },
+    {
+        name: 'llama',
+        match: '/llama|meta/i',
+        systemPrompt: `**WORKSPACE ACCESS**: You have access to the current workspace context, which includes the current file content provided in the user message. When analyzing code, work with the content provided in the workspace context.`
+    },
+    {
+        name: 'default',
+        match: '*',
+        systemPrompt: `**WORKSPACE ACCESS**: You have access to the current file content through the workspace context provided in the user message. When a user asks you to review or analyze code, the code is already available to you in the workspace context.`,
+        toolCallStyle: 'native'
+    }
+];
+
+const PROFILE_FIELDS = ['systemPrompt', 'temperature', 'topP', 'numCtx', 'stop', 'toolCallStyle', 'fimTemplate'] as const;
+type ProfileField = typeof PROFILE_FIELDS[number];
+
+/**
+ * Copy a field from a less specific profile unless it is already set
+ */
+function inheritField<K extends ProfileField>(target: Pick<ModelProfile, ProfileField>, source: Pick<ModelProfile, ProfileField>, field: K) {
+    if (target[field] === undefined && source[field] !== undefined) {
+        target[field] = source[field];
+    }
+}
+
+/**
+ * Per-model tuning from `.duvut/models.json`, the `duvut-assistant.modelProfiles`
+ * setting and the built-in profiles, in that order of precedence. A profile
+ * only needs the fields it changes; the rest come from the next matching profile.
+ */
+export class ModelProfiles implements vscode.Disposable {
+    private static instance: ModelProfiles;
+    private debugService: DebugService;
+    private workspaceProfiles: ModelProfile[] = [];
+    private matchers = new Map<string, RegExp | undefined>();
+    private disposables: vscode.Disposable[] = [];
+
+    private constructor(outputChannel: vscode.OutputChannel) {
+        this.debugService = DebugService.getInstance(outputChannel);
+
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${PROFILES_FILE}`);
+        watcher.onDidCreate(() => this.reload());
+        watcher.onDidChange(() => this.reload());
+        watcher.onDidDelete(() => this.reload());
+        this.disposables.push(watcher);
+        this.reload();
+    }
+
+    public static getInstance(outputChannel: vscode.OutputChannel): ModelProfiles {
+        if (!ModelProfiles.instance) {
+            ModelProfiles.instance = new ModelProfiles(outputChannel);
+        }
+        return ModelProfiles.instance;
+    }
+
+    resolve(model: string): ResolvedModelProfile {
+        const fromSettings = vscode.workspace.getConfiguration('duvut-assistant').get<ModelProfile[]>('modelProfiles', []);
+        const resolved: ResolvedModelProfile = { names: [] };
+
+        for (const profile of [...this.workspaceProfiles, ...fromSettings, ...BUILT_IN_PROFILES]) {
+            if (!profile || !this.matches(profile, model)) continue;
+            resolved.names.push(profile.name || 'unnamed');
+            for (const field of PROFILE_FIELDS) {
+                inheritField(resolved, profile, field);
+            }
+        }
+        return resolved;
+    }
+
+    /**
+     * Sampling options of the model's profile, to spread into a request
+     */
+    getRequestOptions(model: string): Pick<RequestOptions, 'temperature' | 'topP' | 'stop'> {
+        const { temperature, topP, stop } = this.resolve(model);
+        return { temperature, topP, stop };
+    }
+
+    private matches(profile: ModelProfile, model: string): boolean {
+        const patterns = Array.isArray(profile.match) ? profile.match : [profile.match];
+        return patterns.some(pattern => typeof pattern === 'string' && !!this.toRegExp(pattern)?.test(model));
+    }
+
+    /**
+     * `/source/flags` is a regular expression; anything else a glob where `*`
+     * and `?` are wildcards, matched case-insensitively against the whole name
+     */
+    private toRegExp(pattern: string): RegExp | undefined {
+        if (this.matchers.has(pattern)) {
+            return this.matchers.get(pattern);
+        }
+        let matcher: RegExp | undefined;
+        try {
+            const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+            matcher = regex
+                ? new RegExp(regex[1], regex[2].replace(/[gy]/g, ''))
+                : new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+        } catch (error) {
+            this.debugService.log('ModelProfiles', `Invalid model pattern ${pattern}`, error);
+        }
+        this.matchers.set(pattern, matcher);
+        return matcher;
+    }
+
+    /**
+     * Read `.duvut/models.json` of each workspace folder: an array of profiles,
+     * or an object with a `profiles` array
+     */
+    async reload(): Promise<void> {
+        const profiles: ModelProfile[] = [];
+        for (const uri of await vscode.workspace.findFiles(PROFILES_FILE)) {
+            const source = vscode.workspace.asRelativePath(uri);
+            try {
+                const data = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'));
+                const list = Array.isArray(data) ? data : data?.profiles;
+                if (!Array.isArray(list)) {
+                    throw new Error('expected an array of profiles');
+                }
+                profiles.push(...list.filter(profile => profile && profile.match));
+            } catch (error) {
+                this.debugService.log('ModelProfiles', `Could not load ${source}`, error);
+                vscode.window.showWarningMessage(`Duvut: ignoring ${source}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+        this.workspaceProfiles = profiles;
+        this.debugService.log('ModelProfiles', `Loaded ${profiles.length} workspace model profiles`);
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
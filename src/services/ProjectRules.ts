@@ -0,0 +1,134 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import ignore, { Ignore } from 'ignore';
+import { DebugService } from './DebugService';
+
+/** Rule files looked for in each workspace folder; the first one found is used */
+const RULE_FILES = ['.duvutrules', '.duvut/rules.md'];
+/** A line like `[src/**\/*.ts, *.tsx]` starts a section that only applies to matching files */
+const SECTION_PATTERN = /^\[([^\]]+)\]\s*$/;
+/** Rules are added to every request, so they are kept short */
+const MAX_RULES_CHARS = 8000;
+
+interface RuleSection {
+    /** Gitignore-style patterns relative to the workspace folder; empty for rules that always apply */
+    patterns: string[];
+    matcher?: Ignore;
+    text: string;
+}
+
+interface RuleFile {
+    folder: vscode.WorkspaceFolder;
+    /** Path of the rule file within its folder */
+    name: string;
+    sections: RuleSection[];
+}
+
+export interface AppliedRules {
+    /** Rules for the system prompt; empty when there are none */
+    text: string;
+    /** Rule files and scoped sections that contributed, e.g. `.duvutrules [src/**]` */
+    sources: string[];
+}
+
+/**
+ * Split a rule file into sections. Text before the first `[patterns]` line
+ * applies to every request; the text after it only when the current file
+ * matches one of the patterns.
+ */
+function parseRules(text: string): RuleSection[] {
+    const sections: RuleSection[] = [{ patterns: [], text: '' }];
+    for (const line of text.split(/\r?\n/)) {
+        const header = line.match(SECTION_PATTERN);
+        if (header) {
+            const patterns = header[1].split(',').map(pattern => pattern.trim()).filter(Boolean);
+            sections.push({ patterns, matcher: ignore().add(patterns), text: '' });
+        } else {
+            sections[sections.length - 1].text += line + '\n';
+        }
+    }
+    return sections
+        .map(section => ({ ...section, text: section.text.trim() }))
+        .filter(section => section.text);
+}
+
+/**
+ * Project rules from `.duvutrules` (or `.duvut/rules.md`) in each workspace
+ * folder: coding conventions, frameworks and forbidden patterns that are added
+ * to the system prompt. Rule files are watched, so edits apply to the next message.
+ */
+export class ProjectRules implements vscode.Disposable {
+    private debugService: DebugService;
+    private files: RuleFile[] = [];
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.debugService = DebugService.getInstance(outputChannel);
+
+        for (const file of RULE_FILES) {
+            const watcher = vscode.workspace.createFileSystemWatcher(`**/${file}`);
+            watcher.onDidCreate(() => this.reload());
+            watcher.onDidChange(() => this.reload());
+            watcher.onDidDelete(() => this.reload());
+            this.disposables.push(watcher);
+        }
+        this.disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(() => this.reload()));
+        this.reload();
+    }
+
+    /**
+     * The rules that apply while `document` is the current file. Without a
+     * document only the unscoped rules apply.
+     */
+    getRules(document?: vscode.TextDocument): AppliedRules {
+        const folder = document && vscode.workspace.getWorkspaceFolder(document.uri);
+        const relativePath = folder && path.posix.relative(folder.uri.path, document!.uri.path);
+        const texts: string[] = [];
+        const sources: string[] = [];
+
+        for (const file of this.files) {
+            for (const section of file.sections) {
+                if (section.matcher) {
+                    const matches = folder?.uri.toString() === file.folder.uri.toString() &&
+                        !!relativePath && section.matcher.ignores(relativePath);
+                    if (!matches) continue;
+                    sources.push(`${file.name} [${section.patterns.join(', ')}]`);
+                } else {
+                    sources.push(file.name);
+                }
+                texts.push(section.text);
+            }
+        }
+
+        let text = texts.join('\n\n');
+        if (text.length > MAX_RULES_CHARS) {
+            this.debugService.log('ProjectRules', `Rules shortened from ${text.length} to ${MAX_RULES_CHARS} characters`);
+            text = text.substring(0, MAX_RULES_CHARS) + '\n[... rules shortened]';
+        }
+        return { text, sources };
+    }
+
+    async reload(): Promise<void> {
+        const files: RuleFile[] = [];
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            for (const name of RULE_FILES) {
+                try {
+                    const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, name));
+                    files.push({ folder, name, sections: parseRules(Buffer.from(content).toString('utf8')) });
+                    break;
+                } catch {
+                    // Not there; try the next name
+                }
+            }
+        }
+        this.files = files;
+        this.debugService.log('ProjectRules', `Loaded ${files.length} rule files`, {
+            files: files.map(file => `${file.folder.name}/${file.name}`)
+        });
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
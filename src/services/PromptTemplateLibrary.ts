@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DebugService } from './DebugService';
+
+/**
+ * A reusable prompt, shared through `.duvut/prompts/*.md` in the workspace or
+ * defined in the `duvut-assistant.promptTemplates` setting
+ */
+export interface PromptTemplate {
+    /** Name of the slash command, without the leading slash */
+    name: string;
+    description: string;
+    /** Prompt text with `{{selection}}`, `{{file}}`, `{{language}}`, `{{diagnostics}}` and `{{input}}` variables */
+    prompt: string;
+    model?: string;
+    temperature?: number;
+    /** Workspace-relative path of the template file, or `settings` */
+    source: string;
+}
+
+const TEMPLATE_GLOB = '.duvut/prompts/*.md';
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+const VARIABLE_PATTERN = /\{\{\s*(selection|file|language|diagnostics|input)\s*\}\}/g;
+
+/**
+ * Command names are typed after a slash, so they are kept to one lowercase word
+ */
+function toCommandName(name: string): string {
+    return name.trim().toLowerCase().replace(/^\//, '').replace(/\s+/g, '-').replace(/[^\w-]/g, '');
+}
+
+/**
+ * Parse a template file: optional front-matter with `name`, `description`,
+ * `model` and `temperature`, followed by the prompt. The name defaults to the
+ * file name.
+ */
+function parsePromptTemplate(text: string, source: string): PromptTemplate | undefined {
+    const fields: Record<string, string> = {};
+    const frontMatter = text.match(FRONT_MATTER_PATTERN);
+    if (frontMatter) {
+        for (const line of frontMatter[1].split(/\r?\n/)) {
+            const field = line.match(/^\s*(\w+)\s*:\s*(.*?)\s*$/);
+            if (field) {
+                fields[field[1].toLowerCase()] = field[2].replace(/^(['"])(.*)\1$/, '$2');
+            }
+        }
+    }
+
+    const prompt = (frontMatter ? text.substring(frontMatter[0].length) : text).trim();
+    const name = toCommandName(fields.name || path.posix.basename(source, path.posix.extname(source)));
+    if (!prompt || !name) {
+        return undefined;
+    }
+    const temperature = fields.temperature !== undefined ? parseFloat(fields.temperature) : NaN;
+    return {
+        name,
+        description: fields.description || `Prompt template from ${source}`,
+        prompt,
+        model: fields.model || undefined,
+        temperature: isNaN(temperature) ? undefined : temperature,
+        source
+    };
+}
+
+/**
+ * Whether the prompt takes text typed by the user
+ */
+export function hasInputVariable(prompt: string): boolean {
+    return /\{\{\s*input\s*\}\}/.test(prompt);
+}
+
+/**
+ * Replace the template variables with the state of the active editor.
+ * `{{selection}}` falls back to the whole file when nothing is selected.
+ */
+export function renderPromptVariables(prompt: string, input: string): string {
+    const editor = vscode.window.activeTextEditor;
+    return prompt.replace(VARIABLE_PATTERN, (_, variable: string) => {
+        switch (variable) {
+            case 'input':
+                return input;
+            case 'selection':
+                if (!editor) return '';
+                return editor.selection.isEmpty ? editor.document.getText() : editor.document.getText(editor.selection);
+            case 'file':
+                return editor ? vscode.workspace.asRelativePath(editor.document.uri, false) : '';
+            case 'language':
+                return editor?.document.languageId || '';
+            case 'diagnostics':
+                return editor ? describeDiagnostics(editor.document.uri) : '';
+            default:
+                return '';
+        }
+    });
+}
+
+function describeDiagnostics(uri: vscode.Uri): string {
+    const problems = vscode.languages.getDiagnostics(uri)
+        .filter(diagnostic => diagnostic.severity <= vscode.DiagnosticSeverity.Warning)
+        .map(diagnostic => {
+            const severity = diagnostic.severity === vscode.DiagnosticSeverity.Error ? 'Error' : 'Warning';
+            const { line, character } = diagnostic.range.start;
+            return `${line + 1}:${character + 1} ${severity}: ${diagnostic.message}` + (diagnostic.source ? ` (${diagnostic.source})` : '');
+        });
+    return problems.length > 0 ? problems.join('\n') : 'No errors or warnings.';
+}
+
+/**
+ * Prompt templates of the workspace and the user settings. Template files are
+ * watched, so edits show up without reloading the window. A workspace template
+ * replaces a settings template with the same name.
+ */
+export class PromptTemplateLibrary implements vscode.Disposable {
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    private debugService: DebugService;
+    private workspaceTemplates: PromptTemplate[] = [];
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.debugService = DebugService.getInstance(outputChannel);
+
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${TEMPLATE_GLOB}`);
+        watcher.onDidCreate(() => this.reload());
+        watcher.onDidChange(() => this.reload());
+        watcher.onDidDelete(() => this.reload());
+        this.disposables.push(
+            watcher,
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('duvut-assistant.promptTemplates')) {
+                    this._onDidChange.fire();
+                }
+            })
+        );
+        this.reload();
+    }
+
+    getTemplates(): PromptTemplate[] {
+        const fromSettings = vscode.workspace.getConfiguration('duvut-assistant')
+            .get<Array<Partial<PromptTemplate>>>('promptTemplates', [])
+            .filter(template => template && typeof template.name === 'string' && typeof template.prompt === 'string')
+            .map(template => ({
+                name: toCommandName(template.name!),
+                description: template.description || 'Prompt template from the settings',
+                prompt: template.prompt!,
+                model: template.model,
+                temperature: typeof template.temperature === 'number' ? template.temperature : undefined,
+                source: 'settings'
+            }));
+        const names = new Set(this.workspaceTemplates.map(template => template.name));
+        return [...fromSettings.filter(template => !names.has(template.name)), ...this.workspaceTemplates];
+    }
+
+    /**
+     * Read the template files again. Files that cannot be read or have no
+     * prompt are skipped.
+     */
+    async reload(): Promise<void> {
+        const templates: PromptTemplate[] = [];
+        const uris = await vscode.workspace.findFiles(TEMPLATE_GLOB);
+        for (const uri of uris.sort((a, b) => a.path.localeCompare(b.path))) {
+            const source = vscode.workspace.asRelativePath(uri, false);
+            try {
+                const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+                const template = parsePromptTemplate(text, source);
+                if (template) {
+                    templates.push(template);
+                }
+            } catch (error) {
+                this.debugService.log('PromptTemplateLibrary', `Could not read ${source}`, error);
+            }
+        }
+        this.workspaceTemplates = templates;
+        this.debugService.log('PromptTemplateLibrary', `Loaded ${templates.length} workspace prompt templates`);
+        this._onDidChange.fire();
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this._onDidChange.dispose();
+    }
+}
@@ -0,0 +1,227 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ConversationTree } from './ConversationTree';
+import { ChatSession, SessionArchive, SessionChange, SessionMessage } from './SessionStore';
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+const JSON_FORMAT_ID = 'duvut-session';
+const JSON_FORMAT_VERSION = 1;
+
+const MESSAGE_ROLES = ['system', 'user', 'assistant', 'tool'];
+const CHANGE_STATUSES = ['applied', 'failed', 'rejected'];
+
+function isMessage(value: any): value is SessionMessage {
+    return !!value && MESSAGE_ROLES.includes(value.role) && typeof value.content === 'string';
+}
+
+function isChange(value: any): value is SessionChange {
+    return !!value && typeof value.filePath === 'string' && CHANGE_STATUSES.includes(value.status) && typeof value.timestamp === 'number';
+}
+
+function isArchive(value: any): value is SessionArchive {
+    return !!value && typeof value.id === 'string' && Array.isArray(value.messages) && value.messages.every(isMessage);
+}
+
+type TranscriptEntry =
+    | { kind: 'message'; message: SessionMessage }
+    | { kind: 'change'; change: SessionChange };
+
+/**
+ * Renders chat sessions as Markdown, a self-contained HTML report or
+ * re-importable JSON, and parses that JSON back into a session.
+ */
+export class SessionExporter {
+    export(session: ChatSession, format: ExportFormat): string {
+        switch (format) {
+            case 'markdown':
+                return this.toMarkdown(session);
+            case 'html':
+                return this.toHtml(session);
+            case 'json':
+                return JSON.stringify({
+                    format: JSON_FORMAT_ID,
+                    version: JSON_FORMAT_VERSION,
+                    exportedAt: new Date().toISOString(),
+                    session
+                }, null, 2);
+        }
+    }
+
+    /**
+     * Parse an exported JSON file. The session gets a fresh ID so importing the
+     * same file twice never overwrites an existing conversation. Malformed file
+     * changes and archives are dropped; malformed messages reject the file.
+     */
+    import(text: string): ChatSession {
+        let data: any;
+        try {
+            data = JSON.parse(text);
+        } catch {
+            throw new Error('The file is not valid JSON.');
+        }
+        if (data?.format !== JSON_FORMAT_ID || !data.session) {
+            throw new Error('The file is not a Duvut session export.');
+        }
+        if (data.version > JSON_FORMAT_VERSION) {
+            throw new Error(`The file uses a newer export format (version ${data.version}). Update Duvut Assistant to import it.`);
+        }
+
+        const session = data.session;
+        if (!Array.isArray(session.messages) || !session.messages.every(isMessage)) {
+            throw new Error('The session in the file has no valid messages.');
+        }
+
+        const now = Date.now();
+        return ConversationTree.normalize({
+            id: uuidv4(),
+            title: typeof session.title === 'string' && session.title ? session.title : 'Imported chat',
+            createdAt: typeof session.createdAt === 'number' ? session.createdAt : now,
+            updatedAt: now,
+            messages: session.messages,
+            leafId: session.leafId,
+            changes: Array.isArray(session.changes) ? session.changes.filter(isChange) : undefined,
+            archives: Array.isArray(session.archives) ? session.archives.filter(isArchive) : undefined
+        });
+    }
+
+    private toMarkdown(session: ChatSession): string {
+        const lines = [`# ${session.title}`, '', `_Exported from Duvut Assistant on ${new Date().toLocaleString()}_`, ''];
+
+        for (const entry of this.getTranscript(session)) {
+            if (entry.kind === 'change') {
+                lines.push(`> ${this.describeChange(entry.change)}`, '');
+                continue;
+            }
+            const message = entry.message;
+            switch (message.role) {
+                case 'user':
+                    lines.push(message.archiveId ? '## Summary of earlier messages' : '## User', '');
+                    if (message.mentions?.length) {
+                        lines.push(`_Attached: ${message.mentions.map(mention => `\`${mention.label}\``).join(', ')}_`, '');
+                    }
+                    lines.push(message.content, '');
+                    break;
+                case 'assistant':
+                    lines.push('## Assistant', '');
+                    if (message.content) {
+                        lines.push(message.content, '');
+                    }
+                    for (const call of message.tool_calls || []) {
+                        lines.push(`> Tool call: \`${call.function.name}(${JSON.stringify(call.function.arguments)})\``, '');
+                    }
+                    if (message.truncated) {
+                        lines.push('_Generation stopped - this answer is incomplete._', '');
+                    }
+                    break;
+                case 'tool':
+                    lines.push(`### Tool result: ${message.tool_name || 'tool'}`, '', '```', message.content, '```', '');
+                    break;
+            }
+        }
+        return lines.join('\n');
+    }
+
+    private toHtml(session: ChatSession): string {
+        const blocks = this.getTranscript(session).map(entry => {
+            if (entry.kind === 'change') {
+                return `<div class="change ${entry.change.status}">${escapeHtml(this.describeChange(entry.change))}</div>`;
+            }
+            const message = entry.message;
+            if (message.role === 'tool') {
+                return `<div class="tool"><div class="role">Tool result: ${escapeHtml(message.tool_name || 'tool')}</div><pre>${escapeHtml(message.content)}</pre></div>`;
+            }
+            const toolCalls = (message.tool_calls || [])
+                .map(call => `<div class="tool-call">Tool call: <code>${escapeHtml(`${call.function.name}(${JSON.stringify(call.function.arguments)})`)}</code></div>`)
+                .join('');
+            const truncated = message.truncated ? '<div class="truncated">Generation stopped - this answer is incomplete.</div>' : '';
+            const attached = message.mentions?.length
+                ? `<div class="attached">Attached: ${message.mentions.map(mention => `<code>${escapeHtml(mention.label)}</code>`).join(', ')}</div>`
+                : '';
+            const role = message.archiveId ? 'Summary of earlier messages' : message.role === 'user' ? 'User' : 'Assistant';
+            return `<div class="message ${message.role}"><div class="role">${role}</div>` +
+                `${attached}${renderText(message.content)}${toolCalls}${truncated}</div>`;
+        });
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(session.title)}</title>
+<style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 860px; margin: 2em auto; padding: 0 1em; color: #1f2328; line-height: 1.5; }
+    .meta { color: #656d76; font-size: 0.9em; }
+    .message, .tool { border-radius: 6px; padding: 10px 14px; margin: 12px 0; }
+    .message.user { background: #ddf4ff; }
+    .message.assistant { background: #f6f8fa; }
+    .tool { background: #fff8c5; font-size: 0.9em; }
+    .role { font-weight: 600; margin-bottom: 4px; }
+    pre { background: #eaeef2; padding: 8px; border-radius: 4px; overflow-x: auto; white-space: pre-wrap; }
+    .tool-call, .truncated, .attached { font-size: 0.9em; color: #656d76; margin-top: 6px; }
+    .change { font-size: 0.9em; padding: 4px 14px; border-left: 3px solid #1a7f37; }
+    .change.failed { border-left-color: #cf222e; }
+    .change.rejected { border-left-color: #9a6700; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(session.title)}</h1>
+<p class="meta">Exported from Duvut Assistant on ${escapeHtml(new Date().toLocaleString())}</p>
+${blocks.join('\n')}
+</body>
+</html>
+`;
+    }
+
+    /**
+     * The branch being shown, without the system prompt, with each code change
+     * placed after the message it followed. Changes made on other branches go last.
+     */
+    private getTranscript(session: ChatSession): TranscriptEntry[] {
+        const changes = [...(session.changes || [])].sort((a, b) => a.timestamp - b.timestamp);
+        const path = new ConversationTree(session).getActivePath();
+        const onPath = new Set(path.map(message => message.id));
+        const entries: TranscriptEntry[] = [];
+
+        for (const message of path) {
+            if (message.role !== 'system') {
+                entries.push({ kind: 'message', message });
+            }
+            for (const change of changes.filter(c => c.messageId === message.id)) {
+                entries.push({ kind: 'change', change });
+            }
+        }
+        for (const change of changes.filter(c => !c.messageId || !onPath.has(c.messageId))) {
+            entries.push({ kind: 'change', change });
+        }
+        return entries;
+    }
+
+    private describeChange(change: SessionChange): string {
+        switch (change.status) {
+            case 'applied':
+                return `Applied changes to ${change.filePath}`;
+            case 'failed':
+                return `Failed to apply changes to ${change.filePath}${change.detail ? `: ${change.detail}` : ''}`;
+            case 'rejected':
+                return `Rejected changes to ${change.filePath}`;
+        }
+    }
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Minimal Markdown: fenced code blocks become <pre>, other line breaks <br>
+ */
+function renderText(text: string): string {
+    return text.split(/```[^\n]*\n?/).map((part, index) =>
+        index % 2 === 1
+            ? `<pre><code>${escapeHtml(part.replace(/\n$/, ''))}</code></pre>`
+            : escapeHtml(part).replace(/\n/g, '<br>')
+    ).join('');
+}
@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+import { v4 as uuidv4 } from 'uuid';
+import { ChatMessage } from '../api/LlmBackend';
+import { ConversationTree } from './ConversationTree';
+import { ResolvedMention } from './MentionResolver';
+
+/**
+ * Outcome of applying (or rejecting) a suggested code change
+ */
+export interface SessionChange {
+    filePath: string;
+    status: 'applied' | 'failed' | 'rejected';
+    detail?: string;
+    timestamp: number;
+    /** Last message of the conversation when the change was made, to place it in the transcript */
+    messageId?: string;
+}
+
+/**
+ * A message within the session's conversation tree
+ */
+export interface SessionMessage extends ChatMessage {
+    id: string;
+    /** The message this one follows; undefined for the first message */
+    parentId?: string;
+    /** Model that generated an assistant message */
+    model?: string;
+    /** Set on a summary that replaced earlier messages; the ID of their archive */
+    archiveId?: string;
+    /** Context attached to a user message with @-mentions */
+    mentions?: ResolvedMention[];
+}
+
+/**
+ * Messages replaced by a summary when the session was compacted
+ */
+export interface SessionArchive {
+    id: string;
+    createdAt: number;
+    messages: SessionMessage[];
+    /** Last summarised message, so the archived conversation can be shown in order */
+    leafId?: string;
+}
+
+export interface ChatSession {
+    id: string;
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    /** Every message of every branch, in the order they were added */
+    messages: SessionMessage[];
+    /** Last message of the branch being shown */
+    leafId?: string;
+    changes?: SessionChange[];
+    archives?: SessionArchive[];
+}
+
+export interface ChatSessionSummary {
+    id: string;
+    title: string;
+    updatedAt: number;
+    messageCount: number;
+}
+
+export const DEFAULT_SESSION_TITLE = 'New chat';
+
+const INDEX_KEY = 'duvut.sessions';
+const ACTIVE_KEY = 'duvut.activeSession';
+const SESSION_KEY_PREFIX = 'duvut.session.';
+
+/**
+ * Chat sessions of the current workspace, kept in `workspaceState`. The index
+ * of summaries is stored separately so listing sessions does not load every
+ * conversation.
+ */
+export class SessionStore {
+    constructor(private readonly state: vscode.Memento) {}
+
+    list(): ChatSessionSummary[] {
+        return [...this.state.get<ChatSessionSummary[]>(INDEX_KEY, [])]
+            .sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    get(id: string): ChatSession | undefined {
+        const session = this.state.get<ChatSession>(SESSION_KEY_PREFIX + id);
+        return session && ConversationTree.normalize(session);
+    }
+
+    create(): ChatSession {
+        const now = Date.now();
+        return { id: uuidv4(), title: DEFAULT_SESSION_TITLE, createdAt: now, updatedAt: now, messages: [] };
+    }
+
+    /**
+     * Persist a session. Sessions without messages are not written, so opening
+     * the view does not leave empty "New chat" entries behind.
+     */
+    async save(session: ChatSession): Promise<void> {
+        if (session.messages.length === 0 && !this.get(session.id)) {
+            return;
+        }
+        session.updatedAt = Date.now();
+        await this.state.update(SESSION_KEY_PREFIX + session.id, session);
+
+        const index = this.state.get<ChatSessionSummary[]>(INDEX_KEY, []).filter(s => s.id !== session.id);
+        index.push({
+            id: session.id,
+            title: session.title,
+            updatedAt: session.updatedAt,
+            messageCount: new ConversationTree(session).getActivePath().filter(m => m.role === 'user' || m.role === 'assistant').length
+        });
+        await this.state.update(INDEX_KEY, index);
+    }
+
+    async rename(id: string, title: string): Promise<void> {
+        const session = this.get(id);
+        if (session) {
+            session.title = title;
+            await this.save(session);
+        }
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.state.update(SESSION_KEY_PREFIX + id, undefined);
+        await this.state.update(INDEX_KEY, this.state.get<ChatSessionSummary[]>(INDEX_KEY, []).filter(s => s.id !== id));
+        if (this.getActiveId() === id) {
+            await this.setActiveId(undefined);
+        }
+    }
+
+    getActiveId(): string | undefined {
+        return this.state.get<string>(ACTIVE_KEY);
+    }
+
+    async setActiveId(id: string | undefined): Promise<void> {
+        await this.state.update(ACTIVE_KEY, id);
+    }
+}
@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Mention, MentionKind } from './MentionResolver';
+import { hasInputVariable, PromptTemplateLibrary, renderPromptVariables } from './PromptTemplateLibrary';
+
+/**
+ * What happens with the answer of a slash command once it is complete
+ */
+export type SlashCommandAction = 'writeTestFile' | 'commitMessage';
+
+export interface SlashCommand {
+    /** Name without the leading slash */
+    name: string;
+    description: string;
+    /**
+     * Prompt sent to the model; `{{input}}` is replaced by the text typed after
+     * the command, `{{selection}}`, `{{file}}`, `{{language}}` and `{{diagnostics}}`
+     * by the state of the active editor
+     */
+    prompt: string;
+    /** Context attached as mentions. `selection` falls back to the whole file when nothing is selected */
+    context?: MentionKind[];
+    /** Model to use instead of the one selected in the chat */
+    model?: string;
+    /** Overrides the temperature setting */
+    temperature?: number;
+    action?: SlashCommandAction;
+}
+
+export interface SlashCommandInvocation {
+    command: SlashCommand;
+    prompt: string;
+    mentions: Mention[];
+    /** Workspace-relative path of the file open when the command was run */
+    sourceFile?: string;
+}
+
+const BUILT_IN_COMMANDS: SlashCommand[] = [
+    {
+        name: 'explain',
+        description: 'Explain the selected code',
+        prompt: 'Explain what the attached code does, step by step.\n\n{{input}}',
+        context: ['selection']
+    },
+    {
+        name: 'improve',
+        description: 'Suggest improvements for the selected code',
+        prompt: 'Suggest improvements for the attached code: readability, performance and error handling. Show the improved code.\n\n{{input}}',
+        context: ['selection']
+    },
+    {
+        name: 'fix',
+        description: 'Fix problems in the selected code',
+        prompt: 'Find and fix the problems in the attached code, using the reported errors and warnings where they apply. Explain each fix briefly and show the corrected code.\n\n{{input}}',
+        context: ['selection', 'problems']
+    },
+    {
+        name: 'tests',
+        description: 'Write unit tests and save them next to the file',
+        prompt: 'Write unit tests for the attached code using the test framework the project already uses. Reply with a single code block containing the complete test file.\n\n{{input}}',
+        context: ['selection'],
+        action: 'writeTestFile'
+    },
+    {
+        name: 'doc',
+        description: 'Add documentation comments to the selected code',
+        prompt: 'Add documentation comments to the attached code in the usual style of its language. Reply with the documented code.\n\n{{input}}',
+        context: ['selection']
+    },
+    {
+        name: 'review',
+        description: 'Review the uncommitted changes',
+        prompt: 'Review these uncommitted changes. Point out bugs, risky changes and missing tests, most important first.\n\n{{input}}',
+        context: ['git-diff']
+    },
+    {
+        name: 'commit',
+        description: 'Write a commit message for the uncommitted changes',
+        prompt: 'Write a commit message for these changes: a summary line of at most 72 characters, a blank line, then a short body explaining why. Reply with the commit message only, without code fences.\n\n{{input}}',
+        context: ['git-diff'],
+        action: 'commitMessage'
+    }
+];
+
+const COMMAND_PATTERN = /^\/([\w-]+)(?:\s+([\s\S]*))?$/;
+
+/**
+ * Where generated tests for a file go, following the usual convention of its language
+ */
+export function getTestFilePath(sourceFile: string): string {
+    const ext = path.posix.extname(sourceFile);
+    const dir = path.posix.dirname(sourceFile);
+    const base = path.posix.basename(sourceFile, ext);
+    switch (ext) {
+        case '.py':
+            return path.posix.join(dir, `test_${base}${ext}`);
+        case '.go':
+            return path.posix.join(dir, `${base}_test${ext}`);
+        case '.java':
+        case '.kt':
+        case '.cs':
+            return path.posix.join(dir, `${base}Test${ext}`);
+        default:
+            return path.posix.join(dir, `${base}.test${ext}`);
+    }
+}
+
+/**
+ * Slash commands available in the chat box: the built-in ones, the prompt
+ * templates and those defined in `duvut-assistant.slashCommands`. Each of these
+ * replaces a command of the same name from the ones before it.
+ */
+export class SlashCommandRegistry {
+    constructor(private readonly templates: PromptTemplateLibrary) {}
+
+    getCommands(): SlashCommand[] {
+        const custom = vscode.workspace.getConfiguration('duvut-assistant').get<SlashCommand[]>('slashCommands', [])
+            .filter(command => command && typeof command.name === 'string' && typeof command.prompt === 'string')
+            .map(command => ({ ...command, name: command.name.replace(/^\//, '') }));
+        const fromTemplates = this.templates.getTemplates().map(({ source, ...template }): SlashCommand => template);
+
+        const commands = new Map<string, SlashCommand>();
+        for (const command of [...BUILT_IN_COMMANDS, ...fromTemplates, ...custom]) {
+            commands.delete(command.name);
+            commands.set(command.name, command);
+        }
+        return [...commands.values()];
+    }
+
+    get(name: string): SlashCommand | undefined {
+        return this.getCommands().find(command => command.name === name);
+    }
+
+    /**
+     * Expand a message starting with a known `/command`. Other messages,
+     * including ones that merely start with a path, return undefined.
+     */
+    parse(text: string): SlashCommandInvocation | undefined {
+        const match = text.trim().match(COMMAND_PATTERN);
+        const command = match && this.get(match[1]);
+        return command ? this.invoke(command, match![2] || '') : undefined;
+    }
+
+    invoke(command: SlashCommand, input: string): SlashCommandInvocation {
+        const rendered = renderPromptVariables(command.prompt, input);
+        const prompt = hasInputVariable(command.prompt) ? rendered : `${rendered}\n\n${input}`;
+        const editor = vscode.window.activeTextEditor;
+        return {
+            command,
+            prompt: prompt.trim(),
+            mentions: (command.context || []).map(kind => this.toMention(kind)),
+            sourceFile: editor && !editor.document.isUntitled ? vscode.workspace.asRelativePath(editor.document.uri, false) : undefined
+        };
+    }
+
+    private toMention(kind: MentionKind): Mention {
+        const editor = vscode.window.activeTextEditor;
+        if (kind === 'selection' && editor && editor.selection.isEmpty) {
+            return { kind: 'file', value: vscode.workspace.asRelativePath(editor.document.uri, false) };
+        }
+        return { kind };
+    }
+}
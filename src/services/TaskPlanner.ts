@@ -0,0 +1,129 @@
+export type PlanStepStatus = 'pending' | 'running' | 'done' | 'failed' | 'skipped';
+
+/**
+ * One step of a task plan, editable by the user before it runs
+ */
+export interface PlanStep {
+    title: string;
+    description: string;
+    /** Workspace-relative paths the step is expected to create or modify */
+    files: string[];
+    /** Shell commands the step is expected to run */
+    commands: string[];
+    /** Unchecked steps are skipped when the plan runs */
+    enabled: boolean;
+    status: PlanStepStatus;
+}
+
+export interface TaskPlan {
+    id: string;
+    sessionId: string;
+    /** The request the plan was made for */
+    request: string;
+    summary: string;
+    steps: PlanStep[];
+}
+
+/**
+ * Added to the system prompt when asking for a plan. The model answers with
+ * JSON only; nothing is changed until the user runs the plan.
+ */
+export const PLAN_INSTRUCTIONS = `<planning>
+PLANNING MODE: Do not change any files and do not request tools. Reply with a plan for the user's request as one JSON object and nothing else:
+{"summary": "One sentence describing the change", "steps": [{"title": "Short imperative title", "description": "What to change and why", "files": ["workspace-relative paths to create or modify"], "commands": ["shell commands to run in the workspace root, if any"]}]}
+List the steps in the order they must happen and keep each one small enough to carry out with a few tool calls. Use the real file paths of the workspace.
+</planning>`;
+
+/** Planning is one non-streamed request, which local models can take minutes to answer */
+export const PLAN_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** Marker the model uses to report that it could not carry out a step */
+const STEP_FAILED_PATTERN = /^\s*STEP FAILED:?\s*(.*)$/m;
+
+function toStringList(value: unknown): string[] {
+    if (typeof value === 'string') {
+        value = [value];
+    }
+    return Array.isArray(value)
+        ? value.filter(item => typeof item === 'string' && item.trim()).map(item => item.trim())
+        : [];
+}
+
+/**
+ * Read the plan from a model answer. The JSON may be wrapped in a code fence
+ * or surrounded by text; throws when no usable plan is found.
+ */
+export function parsePlan(answer: string): Pick<TaskPlan, 'summary' | 'steps'> {
+    const fenced = answer.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+    const text = fenced ? fenced[1] : answer.substring(answer.indexOf('{'), answer.lastIndexOf('}') + 1);
+
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The model did not answer with a JSON plan.');
+    }
+    const steps: PlanStep[] = (Array.isArray(data?.steps) ? data.steps : [])
+        .filter((step: any) => step && typeof step.title === 'string' && step.title.trim())
+        .map((step: any): PlanStep => ({
+            title: step.title.trim(),
+            description: typeof step.description === 'string' ? step.description.trim() : '',
+            files: toStringList(step.files),
+            commands: toStringList(step.commands),
+            enabled: true,
+            status: 'pending'
+        }));
+    if (steps.length === 0) {
+        throw new Error('The plan has no steps.');
+    }
+    return { summary: typeof data.summary === 'string' ? data.summary.trim() : '', steps };
+}
+
+/**
+ * The plan as a Markdown checklist, which is what the conversation keeps
+ */
+export function planToMarkdown(plan: TaskPlan): string {
+    const lines = [`**Plan:** ${plan.summary || plan.request}`, ''];
+    for (const step of plan.steps) {
+        lines.push(`- [${step.status === 'done' ? 'x' : ' '}] **${step.title}**` + (step.description ? ` - ${step.description}` : ''));
+        if (step.files.length > 0) {
+            lines.push(`  Files: ${step.files.map(file => `\`${file}\``).join(', ')}`);
+        }
+        if (step.commands.length > 0) {
+            lines.push(`  Commands: ${step.commands.map(command => `\`${command}\``).join(', ')}`);
+        }
+    }
+    return lines.join('\n');
+}
+
+/**
+ * The message that asks the model to carry out one step of the approved plan
+ */
+export function stepPrompt(plan: TaskPlan, index: number): string {
+    const step = plan.steps[index];
+    const lines = [
+        `Carry out step ${index + 1} of ${plan.steps.length} of the approved plan for: ${plan.request}`,
+        '',
+        `Step: ${step.title}`
+    ];
+    if (step.description) {
+        lines.push(step.description);
+    }
+    if (step.files.length > 0) {
+        lines.push(`Files: ${step.files.join(', ')}`);
+    }
+    if (step.commands.length > 0) {
+        lines.push('Commands to run:', ...step.commands.map(command => `- ${command}`));
+    }
+    lines.push('', 'Use the tools to make the changes and run the commands. Only do this step; the next steps follow separately. ' +
+        'If you cannot complete it, reply with a line starting with "STEP FAILED:" and the reason.');
+    return lines.join('\n');
+}
+
+/**
+ * The reason the model gave for not completing a step, if it reported one
+ */
+export function getStepFailure(answer: string): string | undefined {
+    const match = answer.match(STEP_FAILED_PATTERN);
+    return match ? (match[1].trim() || 'The step could not be completed.') : undefined;
+}
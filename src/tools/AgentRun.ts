@@ -0,0 +1,77 @@
+export type AgentStepStatus = 'pending' | 'running' | 'done' | 'failed' | 'rejected';
+
+/**
+ * One tool call of an agent run, as shown in the step timeline
+ */
+export interface AgentStep {
+    id: string;
+    /** 1-based position in the run */
+    index: number;
+    tool: string;
+    args: Record<string, any>;
+    status: AgentStepStatus;
+    /** Start of the tool output */
+    output?: string;
+}
+
+/**
+ * Pause and approval state of one agent run. The agent loop waits on
+ * `waitWhilePaused()` before each step and on `requestApproval()` for steps
+ * that need consent; the sidebar settles them. Aborting the run's signal
+ * releases every wait, with pending steps counted as rejected.
+ */
+export class AgentRun {
+    private paused = false;
+    private resumeWaiters: Array<() => void> = [];
+    private approvals = new Map<string, (approved: boolean) => void>();
+    ended = false;
+
+    constructor(readonly id: string, readonly signal: AbortSignal) {
+        signal.addEventListener('abort', () => this.releaseAll(), { once: true });
+    }
+
+    get isPaused(): boolean {
+        return this.paused;
+    }
+
+    pause(): void {
+        this.paused = true;
+    }
+
+    resume(): void {
+        this.paused = false;
+        this.resumeWaiters.splice(0).forEach(resolve => resolve());
+    }
+
+    waitWhilePaused(): Promise<void> {
+        if (!this.paused || this.signal.aborted) {
+            return Promise.resolve();
+        }
+        return new Promise(resolve => this.resumeWaiters.push(resolve));
+    }
+
+    requestApproval(stepId: string): Promise<boolean> {
+        if (this.signal.aborted) {
+            return Promise.resolve(false);
+        }
+        return new Promise(resolve => this.approvals.set(stepId, resolve));
+    }
+
+    /**
+     * Answer a pending approval. Returns false when the step was not waiting.
+     */
+    settle(stepId: string, approved: boolean): boolean {
+        const resolve = this.approvals.get(stepId);
+        if (!resolve) return false;
+        this.approvals.delete(stepId);
+        resolve(approved);
+        return true;
+    }
+
+    private releaseAll(): void {
+        for (const stepId of [...this.approvals.keys()]) {
+            this.settle(stepId, false);
+        }
+        this.resume();
+    }
+}
@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+import { ToolCall, ToolDefinition } from '../api/LlmBackend';
+import { ToolsService } from './ToolsService';
+
+export interface ToolResult {
+    name: string;
+    args: Record<string, any>;
+    success: boolean;
+    output: string;
+}
+
+interface RegisteredTool {
+    definition: ToolDefinition;
+    execute(args: Record<string, any>, signal?: AbortSignal): Promise<string>;
+    /** Converts the body of a legacy `<name>...</name>` tag into call arguments */
+    fromXml?(body: string): Record<string, any>;
+    /** Modifies the workspace, so the agent asks before running it */
+    changesWorkspace?: boolean;
+}
+
+/**
+ * Typed catalogue of the ToolsService capabilities that the model is allowed
+ * to call, described with JSON Schema so they can be sent as Ollama `tools`.
+ */
+export class ToolRegistry {
+    private tools = new Map<string, RegisteredTool>();
+
+    constructor(
+        private toolsService: ToolsService,
+        private outputChannel: vscode.OutputChannel
+    ) {
+        this.registerBuiltInTools();
+    }
+
+    register(tool: RegisteredTool): void {
+        this.tools.set(tool.definition.function.name, tool);
+    }
+
+    has(name: string): boolean {
+        return this.tools.has(name);
+    }
+
+    changesWorkspace(name: string): boolean {
+        return !!this.tools.get(name)?.changesWorkspace;
+    }
+
+    getDefinitions(): ToolDefinition[] {
+        return Array.from(this.tools.values()).map(tool => tool.definition);
+    }
+
+    /**
+     * Names of the tools that can also be invoked with the legacy XML tag syntax
+     */
+    getXmlToolNames(): string[] {
+        return Array.from(this.tools.entries())
+            .filter(([, tool]) => !!tool.fromXml)
+            .map(([name]) => name);
+    }
+
+    /**
+     * Build a tool call from a legacy XML tag body, e.g. `<read_file>src/app.ts</read_file>`
+     */
+    fromXml(name: string, body: string): ToolCall | null {
+        const tool = this.tools.get(name);
+        if (!tool?.fromXml) {
+            return null;
+        }
+        return { function: { name, arguments: tool.fromXml(body) } };
+    }
+
+    /**
+     * Run a tool call. `signal` stops tools that can take long, such as `run_command`.
+     */
+    async execute(call: ToolCall, signal?: AbortSignal): Promise<ToolResult> {
+        const name = call.function.name;
+        const args = this.parseArguments(call.function.arguments);
+        const tool = this.tools.get(name);
+
+        if (!tool) {
+            this.outputChannel.appendLine(`[Tools] Unknown tool requested: ${name}`);
+            return { name, args, success: false, output: `Unknown tool: ${name}` };
+        }
+
+        const missing = (tool.definition.function.parameters.required || []).filter(key => args[key] === undefined || args[key] === '');
+        if (missing.length > 0) {
+            return { name, args, success: false, output: `Missing required argument(s) for ${name}: ${missing.join(', ')}` };
+        }
+
+        try {
+            this.outputChannel.appendLine(`[Tools] Executing ${name} ${JSON.stringify(args)}`);
+            const output = await tool.execute(args, signal);
+            return { name, args, success: true, output };
+        } catch (error) {
+            this.outputChannel.appendLine(`[Tools] ${name} failed: ${error}`);
+            return { name, args, success: false, output: `Error: ${error instanceof Error ? error.message : error}` };
+        }
+    }
+
+    /**
+     * The arguments of a tool call as an object, the same way `execute` reads them
+     */
+    parseArguments(args: Record<string, any> | string | undefined): Record<string, any> {
+        // Some models send the arguments as a JSON string rather than an object
+        if (typeof args === 'string') {
+            try {
+                return JSON.parse(args);
+            } catch {
+                return {};
+            }
+        }
+        return args || {};
+    }
+
+    private registerBuiltInTools(): void {
+        this.register({
+            definition: {
+                type: 'function',
+                function: {
+                    name: 'read_file',
+                    description: 'Read the full contents of a file in the workspace',
+                    parameters: {
+                        type: 'object',
+                        properties: {
+                            path: { type: 'string', description: 'File path relative to the workspace root' }
+                        },
+                        required: ['path']
+                    }
+                }
+            },
+            execute: args => this.toolsService.readFile(args.path),
+            fromXml: body => ({ path: body.trim() })
+        });
+
+        this.register({
+            definition: {
+                type: 'function',
+                function: {
+                    name: 'write_file',
+                    description: 'Create or overwrite a file in the workspace with the given content',
+                    parameters: {
+                        type: 'object',
+                        properties: {
+                            path: { type: 'string', description: 'File path relative to the workspace root' },
+                            content: { type: 'string', description: 'The complete new content of the file' }
+                        },
+                        required: ['path', 'content']
+                    }
+                }
+            },
+            execute: async args => {
+                await this.toolsService.writeFile(args.path, args.content);
+                return `Wrote ${args.content.length} characters to ${args.path}`;
+            },
+            changesWorkspace: true,
+            // Legacy format: first line is the path, the rest is the content
+            fromXml: body => {
+                const lines = body.trim().split('\n');
+                return { path: lines[0].trim(), content: lines.slice(1).join('\n') };
+            }
+        });
+
+        this.register({
+            definition: {
+                type: 'function',
+                function: {
+                    name: 'open_file',
+                    description: 'Open a file in the editor so the user can see it',
+                    parameters: {
+                        type: 'object',
+                        properties: {
+                            path: { type: 'string', description: 'File path relative to the workspace root' }
+                        },
+                        required: ['path']
+                    }
+                }
+            },
+            execute: async args => {
+                await this.toolsService.openFile(args.path);
+                return `Opened ${args.path}`;
+            },
+            fromXml: body => ({ path: body.trim() })
+        });
+
+        this.register({
+            definition: {
+                type: 'function',
+                function: {
+                    name: 'list_files',
+                    description: 'List the files in a workspace directory (not recursive)',
+                    parameters: {
+                        type: 'object',
+                        properties: {
+                            path: { type: 'string', description: 'Directory relative to the workspace root; empty for the root' }
+                        }
+                    }
+                }
+            },
+            execute: async args => {
+                const files = await this.toolsService.listFiles(args.path || '');
+                return files.length > 0 ? files.join('\n') : '(no files)';
+            }
+        });
+
+        this.register({
+            definition: {
+                type: 'function',
+                function: {
+                    name: 'search_workspace',
+                    description: 'Find workspace files whose contents contain the given text (case-insensitive)',
+                    parameters: {
+                        type: 'object',
+                        properties: {
+                            query: { type: 'string', description: 'Text to search for' }
+                        },
+                        required: ['query']
+                    }
+                }
+            },
+            execute: async args => {
+                const files = await this.toolsService.searchInWorkspace(args.query);
+                return files.length > 0
+                    ? files.map(uri => vscode.workspace.asRelativePath(uri)).join('\n')
+                    : `No files contain "${args.query}"`;
+            }
+        });
+
+        this.register({
+            definition: {
+                type: 'function',
+                function: {
+                    name: 'run_command',
+                    description: 'Run a shell command in the workspace root, such as a build or test command, and return its output',
+                    parameters: {
+                        type: 'object',
+                        properties: {
+                            command: { type: 'string', description: 'The command line to run' }
+                        },
+                        required: ['command']
+                    }
+                }
+            },
+            execute: (args, signal) => this.toolsService.runCommand(args.command, undefined, signal),
+            changesWorkspace: true,
+            fromXml: body => ({ command: body.trim() })
+        });
+    }
+}
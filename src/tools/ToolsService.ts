@@ -1,6 +1,26 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { ChildProcess, exec, spawn } from 'child_process';
+
+/** Command output kept for the model; longer output keeps its end, where errors usually are */
+const MAX_COMMAND_OUTPUT = 4000;
+
+/**
+ * Stop a command and the processes it started
+ */
+function killProcessTree(child: ChildProcess): void {
+    if (child.pid === undefined || child.exitCode !== null) return;
+    try {
+        if (process.platform === 'win32') {
+            exec(`taskkill /pid ${child.pid} /T /F`);
+        } else {
+            process.kill(-child.pid, 'SIGTERM');
+        }
+    } catch {
+        child.kill();
+    }
+}
 
 export class ToolsService {
     constructor(private outputChannel: vscode.OutputChannel) {}
@@ -162,6 +182,72 @@ export class ToolsService {
         this.outputChannel.appendLine(`Executed command: ${command}`);
     }
 
+    /**
+     * Run a shell command in the workspace root and return its output. A non-zero
+     * exit code rejects with the output, so the caller can see why it failed.
+     * Aborting `signal` kills the command.
+     */
+    async runCommand(command: string, timeoutMs: number = 120000, signal?: AbortSignal): Promise<string> {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (!workspaceFolders) {
+            throw new Error('No workspace folder open');
+        }
+
+        this.outputChannel.appendLine(`Running command: ${command}`);
+        return new Promise((resolve, reject) => {
+            // In its own process group on POSIX, so stopping the shell also stops what it started
+            const child = spawn(command, { cwd: workspaceFolders[0].uri.fsPath, shell: true, detached: process.platform !== 'win32' });
+            let output = '';
+            const collect = (data: Buffer) => {
+                // Only the end of the output is returned, so there is no need to keep more
+                output = (output + data.toString()).slice(-MAX_COMMAND_OUTPUT * 2);
+            };
+            child.stdout.on('data', collect);
+            child.stderr.on('data', collect);
+
+            let timedOut = false;
+            const stop = () => killProcessTree(child);
+            const timer = setTimeout(() => {
+                timedOut = true;
+                stop();
+            }, timeoutMs);
+            if (signal?.aborted) {
+                stop();
+            } else {
+                signal?.addEventListener('abort', stop, { once: true });
+            }
+
+            let finished = false;
+            const finish = (error?: string) => {
+                // 'error' can be followed by 'close'
+                if (finished) return;
+                finished = true;
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', stop);
+                let text = output.trim();
+                if (text.length > MAX_COMMAND_OUTPUT) {
+                    text = '[... output shortened]\n' + text.slice(-MAX_COMMAND_OUTPUT);
+                }
+                if (error) {
+                    this.outputChannel.appendLine(`Command ${error}: ${command}`);
+                    reject(new Error(`Command ${error}` + (text ? `:\n${text}` : '')));
+                } else {
+                    resolve(text || '(no output)');
+                }
+            };
+            child.on('error', error => finish(`could not be started (${error.message})`));
+            child.on('close', code => {
+                if (signal?.aborted) {
+                    finish('was stopped');
+                } else if (timedOut) {
+                    finish(`timed out after ${timeoutMs / 1000}s`);
+                } else {
+                    finish(code === 0 ? undefined : `exited with code ${code}`);
+                }
+            });
+        });
+    }
+
     /**
      * Search for text in workspace files
      */
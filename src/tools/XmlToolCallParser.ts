@@ -0,0 +1,92 @@
+export interface XmlToolTag {
+    name: string;
+    body: string;
+    /** The complete tag as it appeared in the response, e.g. `<read_file>a.ts</read_file>` */
+    raw: string;
+}
+
+export interface XmlParseResult {
+    /** Text that is safe to display (never contains part of a tool tag) */
+    text: string;
+    tags: XmlToolTag[];
+}
+
+/**
+ * Incremental parser for the legacy `<tool>...</tool>` syntax used by models
+ * without native tool support. Chunks are fed in as they stream, so a tag that
+ * is split across chunks (e.g. `<read_` + `file>`) is still recognised.
+ */
+export class XmlToolCallParser {
+    private buffer = '';
+    private openTag: string | null = null;
+
+    constructor(private readonly toolNames: string[]) {}
+
+    push(chunk: string): XmlParseResult {
+        this.buffer += chunk;
+        let text = '';
+        const tags: XmlToolTag[] = [];
+
+        while (this.buffer.length > 0) {
+            if (this.openTag) {
+                const closing = `</${this.openTag}>`;
+                const end = this.buffer.indexOf(closing);
+                if (end === -1) {
+                    break; // Wait for the rest of the tag body
+                }
+                const body = this.buffer.substring(0, end);
+                tags.push({ name: this.openTag, body, raw: `<${this.openTag}>${body}${closing}` });
+                this.buffer = this.buffer.substring(end + closing.length);
+                this.openTag = null;
+                continue;
+            }
+
+            const next = this.findNextOpeningTag();
+            if (next) {
+                text += this.buffer.substring(0, next.index);
+                this.buffer = this.buffer.substring(next.index + next.name.length + 2);
+                this.openTag = next.name;
+                continue;
+            }
+
+            // Hold back a trailing fragment that could still become an opening tag
+            const holdBack = this.partialTagLength();
+            text += this.buffer.substring(0, this.buffer.length - holdBack);
+            this.buffer = this.buffer.substring(this.buffer.length - holdBack);
+            break;
+        }
+
+        return { text, tags };
+    }
+
+    /**
+     * Return whatever is still buffered once the stream has ended. An unterminated
+     * tag is returned as plain text rather than executed.
+     */
+    flush(): string {
+        const remaining = this.openTag ? `<${this.openTag}>${this.buffer}` : this.buffer;
+        this.buffer = '';
+        this.openTag = null;
+        return remaining;
+    }
+
+    private findNextOpeningTag(): { name: string; index: number } | null {
+        let best: { name: string; index: number } | null = null;
+        for (const name of this.toolNames) {
+            const index = this.buffer.indexOf(`<${name}>`);
+            if (index !== -1 && (!best || index < best.index)) {
+                best = { name, index };
+            }
+        }
+        return best;
+    }
+
+    private partialTagLength(): number {
+        const lastOpen = this.buffer.lastIndexOf('<');
+        if (lastOpen === -1) {
+            return 0;
+        }
+        const fragment = this.buffer.substring(lastOpen);
+        return this.toolNames.some(name => `<${name}>`.startsWith(fragment)) ? fragment.length : 0;
+    }
+}